@@ -0,0 +1,183 @@
+import type {
+	APIRequest,
+	APIRequestContext,
+	APIResponse,
+} from "@playwright/test";
+import type { ResolvedPlaywrightOpentelemetryConfig } from "../shared/config";
+import { generateSpanId } from "../shared/otel";
+import { tracePropagationHeaders } from "./network-propagator";
+import { createHttpClientSpan } from "./test-fetch-capture";
+import { mergePropagationHeaders } from "./test-identity";
+import type { TestTraceContext } from "./trace-context";
+
+type FetchUrlOrRequest = Parameters<APIRequestContext["fetch"]>[0];
+type FetchOptions = NonNullable<Parameters<APIRequestContext["fetch"]>[1]>;
+
+/**
+ * Instrumented contexts and the baseURL each resolves relative URLs against.
+ * Playwright's `request` fixture creates its context through the patched
+ * `newContext()` without options, so the fixture override sets the baseURL
+ * afterwards.
+ */
+const contextBaseURLs = new WeakMap<APIRequestContext, string | undefined>();
+
+/**
+ * Record every call of an `APIRequestContext` as an HTTP client span under
+ * the test root and send the test's propagation headers with it. `get`,
+ * `post` and the other methods all go through `fetch`, so wrapping `fetch`
+ * on the instance covers them. `baseURL` is the one the context resolves
+ * relative URLs against; instrumenting a context again only updates it.
+ */
+export function instrumentAPIRequestContext(
+	context: APIRequestContext,
+	traceContext: TestTraceContext,
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	baseURL?: string,
+): void {
+	if (contextBaseURLs.has(context)) {
+		if (baseURL) {
+			contextBaseURLs.set(context, baseURL);
+		}
+		return;
+	}
+	contextBaseURLs.set(context, baseURL);
+
+	const originalFetch = context.fetch.bind(context);
+	context.fetch = async (urlOrRequest, options = {}) => {
+		const method = (
+			options.method ??
+			(typeof urlOrRequest === "string" ? "GET" : urlOrRequest.method())
+		).toUpperCase();
+		const url = resolveUrl(
+			typeof urlOrRequest === "string" ? urlOrRequest : urlOrRequest.url(),
+			contextBaseURLs.get(context),
+		);
+		const spanId = generateSpanId();
+		const startTime = new Date();
+
+		let response: APIResponse;
+		try {
+			response = await originalFetch(
+				urlOrRequest,
+				withPropagationHeaders(urlOrRequest, options, {
+					traceContext,
+					config,
+					url,
+					spanId,
+				}),
+			);
+		} catch (error) {
+			traceContext.addSpan(
+				createHttpClientSpan({
+					method,
+					url,
+					resourceType: "api_request",
+					spanId,
+					traceContext,
+					startTime,
+					endTime: new Date(),
+					error,
+				}),
+			);
+			throw error;
+		}
+
+		traceContext.addSpan(
+			createHttpClientSpan({
+				method,
+				// Relative URLs are resolved against the context's baseURL.
+				url: isAbsoluteUrl(url) ? url : response.url(),
+				resourceType: "api_request",
+				spanId,
+				traceContext,
+				startTime,
+				endTime: new Date(),
+				statusCode: response.status(),
+			}),
+		);
+		return response;
+	};
+}
+
+/**
+ * Instrument the contexts `playwright.request.newContext()` creates until the
+ * returned function restores it.
+ */
+export function instrumentNewAPIRequestContexts(
+	request: APIRequest,
+	traceContext: TestTraceContext,
+	config: ResolvedPlaywrightOpentelemetryConfig,
+): () => void {
+	const originalNewContext = request.newContext;
+	request.newContext = async (...args) => {
+		const context = await originalNewContext.apply(request, args);
+		instrumentAPIRequestContext(
+			context,
+			traceContext,
+			config,
+			args[0]?.baseURL,
+		);
+		return context;
+	};
+	return () => {
+		request.newContext = originalNewContext;
+	};
+}
+
+function withPropagationHeaders(
+	urlOrRequest: FetchUrlOrRequest,
+	options: FetchOptions,
+	{
+		traceContext,
+		config,
+		url,
+		spanId,
+	}: {
+		traceContext: TestTraceContext;
+		config: ResolvedPlaywrightOpentelemetryConfig;
+		url: string;
+		spanId: string;
+	},
+): FetchOptions {
+	if (!config.propagateTraceHeaders || !config.traceHeaderOrigins(url)) {
+		return options;
+	}
+
+	// Headers in options replace those of a Request, so start from both.
+	const headers =
+		options.headers ??
+		(typeof urlOrRequest === "string" ? {} : urlOrRequest.headers());
+	return {
+		...options,
+		headers: mergePropagationHeaders(
+			headers,
+			tracePropagationHeaders({
+				traceId: traceContext.traceId,
+				spanId,
+				propagators: config.propagators,
+				propagationHeaders: traceContext.propagationHeaders,
+			}),
+		),
+	};
+}
+
+/** Resolve a relative URL like Playwright does, so origin checks see the real origin. */
+function resolveUrl(url: string, baseURL: string | undefined): string {
+	if (!baseURL || isAbsoluteUrl(url)) {
+		return url;
+	}
+	try {
+		return new URL(url, baseURL).toString();
+	} catch {
+		return url;
+	}
+}
+
+function isAbsoluteUrl(url: string): boolean {
+	try {
+		new URL(url);
+		return true;
+	} catch {
+		return false;
+	}
+}
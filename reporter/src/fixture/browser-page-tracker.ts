@@ -1,4 +1,13 @@
-import type { ConsoleMessage, Page, Request } from "@playwright/test";
+import type {
+	ConsoleMessage,
+	Page,
+	Request,
+	WebSocket,
+} from "@playwright/test";
+import {
+	DEFAULT_WEBSOCKET_CONFIG,
+	type ResolvedPlaywrightOpentelemetryWebSocketConfig,
+} from "../shared/config";
 import { generateSpanId } from "../shared/otel";
 import {
 	BROWSER_SERVICE_NAME,
@@ -8,7 +17,10 @@ import {
 
 const BROWSER_PAGE_SPAN_NAME = "browser.page";
 const BROWSER_ROUTE_SPAN_NAME = "browser.route";
+const BROWSER_WEBSOCKET_SPAN_NAME = "browser.websocket";
+const SPAN_KIND_CLIENT = 3;
 const SPAN_STATUS_CODE_UNSET = 0;
+const SPAN_STATUS_CODE_ERROR = 2;
 
 type NavigationType = "document" | "same-document";
 
@@ -25,12 +37,24 @@ interface ActiveBrowserSpan {
 	url: string;
 }
 
+interface WebSocketState {
+	span: FixtureSpan;
+	framesSent: number;
+	framesReceived: number;
+	recordedFrames: number;
+	droppedFrames: number;
+}
+
 export class BrowserPageTracker {
 	private nextPageId = 1;
 	private pageStates = new WeakMap<Page, PageState>();
 	private pages = new Set<Page>();
+	private openWebSockets = new Set<WebSocketState>();
 
-	constructor(private readonly traceContext: TestTraceContext) {}
+	constructor(
+		private readonly traceContext: TestTraceContext,
+		private readonly webSocketConfig: ResolvedPlaywrightOpentelemetryWebSocketConfig = DEFAULT_WEBSOCKET_CONFIG,
+	) {}
 
 	registerPage(page: Page): void {
 		this.stateFor(page);
@@ -47,6 +71,66 @@ export class BrowserPageTracker {
 			this.finishPageSpans(page, endTime);
 		}
 		this.pages.clear();
+		for (const socket of this.openWebSockets) {
+			this.finishWebSocket(socket, endTime);
+		}
+	}
+
+	/**
+	 * Track a WebSocket as a span that lasts until the socket closes, under
+	 * the browser span that was active when it opened. Frames become
+	 * `websocket.frame.sent` and `websocket.frame.received` events.
+	 */
+	trackWebSocket(
+		page: Page,
+		webSocket: WebSocket,
+		startTime = new Date(),
+	): void {
+		const url = webSocket.url();
+		const state = this.stateFor(page);
+		const span: FixtureSpan = {
+			traceId: this.traceContext.traceId,
+			spanId: generateSpanId(),
+			parentSpanId:
+				this.getActiveBrowserSpan(page)?.spanId ?? this.traceContext.rootSpanId,
+			name: BROWSER_WEBSOCKET_SPAN_NAME,
+			kind: SPAN_KIND_CLIENT,
+			startTime,
+			endTime: startTime,
+			status: { code: SPAN_STATUS_CODE_UNSET },
+			attributes: webSocketAttributes(state.pageId, url),
+			events: [],
+			serviceName: BROWSER_SERVICE_NAME,
+		};
+		const socket: WebSocketState = {
+			span,
+			framesSent: 0,
+			framesReceived: 0,
+			recordedFrames: 0,
+			droppedFrames: 0,
+		};
+		this.traceContext.addSpan(span);
+		this.openWebSockets.add(socket);
+
+		webSocket.on("framesent", ({ payload }) => {
+			socket.framesSent++;
+			this.recordWebSocketFrame(socket, "websocket.frame.sent", payload);
+		});
+		webSocket.on("framereceived", ({ payload }) => {
+			socket.framesReceived++;
+			this.recordWebSocketFrame(socket, "websocket.frame.received", payload);
+		});
+		webSocket.on("socketerror", (error) => {
+			span.status = { code: SPAN_STATUS_CODE_ERROR, message: error };
+			span.events.push({
+				name: "exception",
+				time: new Date(),
+				attributes: { "exception.message": error },
+			});
+		});
+		webSocket.on("close", () => {
+			this.finishWebSocket(socket, new Date());
+		});
 	}
 
 	startDocumentNavigation(request: Request): void {
@@ -242,6 +326,53 @@ export class BrowserPageTracker {
 		}
 	}
 
+	private recordWebSocketFrame(
+		socket: WebSocketState,
+		name: string,
+		payload: string | Buffer,
+		time = new Date(),
+	): void {
+		if (socket.recordedFrames >= this.webSocketConfig.maxFrameEvents) {
+			socket.droppedFrames++;
+			return;
+		}
+		socket.recordedFrames++;
+
+		const text = typeof payload === "string";
+		const attributes: Record<string, string | number | boolean> = {
+			"websocket.frame.type": text ? "text" : "binary",
+			"websocket.frame.size": text
+				? Buffer.byteLength(payload)
+				: payload.length,
+		};
+		// Binary payloads are only measured.
+		if (this.webSocketConfig.capturePayloads && text) {
+			const { maxPayloadLength } = this.webSocketConfig;
+			attributes["websocket.frame.payload"] = payload.slice(
+				0,
+				maxPayloadLength,
+			);
+			if (payload.length > maxPayloadLength) {
+				attributes["websocket.frame.payload.truncated"] = true;
+			}
+		}
+
+		socket.span.events.push({ name, time, attributes });
+	}
+
+	private finishWebSocket(socket: WebSocketState, endTime: Date): void {
+		if (!this.openWebSockets.delete(socket)) {
+			return;
+		}
+
+		socket.span.endTime = endTime;
+		socket.span.attributes["websocket.frames.sent"] = socket.framesSent;
+		socket.span.attributes["websocket.frames.received"] = socket.framesReceived;
+		if (socket.droppedFrames > 0) {
+			socket.span.attributes["websocket.frames.dropped"] = socket.droppedFrames;
+		}
+	}
+
 	private getActiveBrowserSpan(page: Page): FixtureSpan | undefined {
 		const state = this.pageStates.get(page);
 		return state?.activeRouteSpan?.span ?? state?.activeDocumentSpan?.span;
@@ -367,6 +498,31 @@ function pageAttributes({
 	return attributes;
 }
 
+function webSocketAttributes(
+	pageId: string,
+	url: string,
+): Record<string, string | number | boolean> {
+	const attributes: Record<string, string | number | boolean> = {
+		"browser.resource.type": "websocket",
+		"browser.page.id": pageId,
+		"url.full": url,
+	};
+
+	try {
+		const parsedUrl = new URL(url);
+		attributes["url.scheme"] = parsedUrl.protocol.slice(0, -1);
+		attributes["url.path"] = parsedUrl.pathname;
+		attributes["server.address"] = parsedUrl.hostname;
+		if (parsedUrl.search) {
+			attributes["url.query"] = parsedUrl.search.slice(1);
+		}
+	} catch {
+		// Leave only url.full for non-standard browser URLs.
+	}
+
+	return attributes;
+}
+
 function isMainFrameNavigationRequest(request: Request): boolean {
 	if (!request.isNavigationRequest()) {
 		return false;
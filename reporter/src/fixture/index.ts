@@ -3,9 +3,22 @@ import { createPlaywrightOtelTest } from "./playwright-opentelemetry-fixture";
 
 export * from "@playwright/test";
 export type {
+	PlaywrightOpentelemetryBatchExportConfig,
 	PlaywrightOpentelemetryConfig,
 	PlaywrightOpentelemetryDestination,
+	PlaywrightOpentelemetryExportRetryConfig,
+	PlaywrightOpentelemetryNetworkCaptureConfig,
+	PlaywrightOpentelemetryPropagator,
+	PlaywrightOpentelemetryRedactionConfig,
+	PlaywrightOpentelemetryReporterOptions,
+	PlaywrightOpentelemetrySamplingConfig,
+	PlaywrightOpentelemetrySpan,
+	PlaywrightOpentelemetrySpanProcessor,
+	PlaywrightOpentelemetryTestIdentityConfig,
+	PlaywrightOpentelemetryTestOutputConfig,
+	PlaywrightOpentelemetryTraceHeaderOriginsConfig,
 	PlaywrightOpentelemetryUseOptions,
+	PlaywrightOpentelemetryWebSocketConfig,
 } from "../shared/config";
 export type { PlaywrightTraceOption } from "../shared/playwright-trace";
 export const test = createPlaywrightOtelTest(base);
@@ -0,0 +1,139 @@
+import type { Request, Response } from "@playwright/test";
+import type { ResolvedPlaywrightOpentelemetryNetworkCaptureConfig } from "../shared/config";
+import type { SpanAttributeValue, SpanEvent } from "../shared/otel";
+
+type MessageDirection = "request" | "response";
+
+/**
+ * Builds `http.request.header.<name>` attributes for the configured request
+ * headers. Values are string arrays, as in the OpenTelemetry HTTP semantic
+ * conventions.
+ */
+export function requestHeaderAttributes(
+	request: Request,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+): Record<string, SpanAttributeValue> {
+	return headerAttributes("request", config.requestHeaders, () =>
+		request.headers(),
+	);
+}
+
+/** Builds `http.response.header.<name>` attributes for the configured response headers. */
+export function responseHeaderAttributes(
+	response: Response,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+): Record<string, SpanAttributeValue> {
+	return headerAttributes("response", config.responseHeaders, () =>
+		response.headers(),
+	);
+}
+
+/**
+ * Builds an `http.request.body` event for fetch/XHR requests whose content
+ * type is captured. Returns undefined when bodies are not captured.
+ */
+export function requestBodyEvent(
+	request: Request,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+	time: Date,
+): SpanEvent | undefined {
+	if (
+		!config.captureBodies ||
+		!shouldCaptureBody(request, request.headers()["content-type"], config)
+	) {
+		return undefined;
+	}
+
+	const body = request.postDataBuffer();
+	if (!body) {
+		return undefined;
+	}
+	return bodyEvent("request", body, config, time);
+}
+
+/**
+ * Builds an `http.response.body` event like `requestBodyEvent`. Bodies that
+ * can no longer be read, for example after the page closed, are skipped.
+ */
+export async function responseBodyEvent(
+	request: Request,
+	response: Response,
+	contentType: string | null,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+	time: Date,
+): Promise<SpanEvent | undefined> {
+	if (!shouldCaptureBody(request, contentType ?? undefined, config)) {
+		return undefined;
+	}
+
+	try {
+		return bodyEvent("response", await response.body(), config, time);
+	} catch {
+		return undefined;
+	}
+}
+
+function headerAttributes(
+	direction: MessageDirection,
+	names: string[],
+	readHeaders: () => Record<string, string>,
+): Record<string, SpanAttributeValue> {
+	const attributes: Record<string, SpanAttributeValue> = {};
+	if (names.length === 0) {
+		return attributes;
+	}
+
+	for (const [name, value] of Object.entries(readHeaders())) {
+		const lowerName = name.toLowerCase();
+		if (names.includes(lowerName)) {
+			// Playwright joins repeated headers with newlines.
+			attributes[`http.${direction}.header.${lowerName}`] = value.split("\n");
+		}
+	}
+	return attributes;
+}
+
+function shouldCaptureBody(
+	request: Request,
+	contentType: string | undefined,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+): boolean {
+	if (!config.captureBodies || !contentType) {
+		return false;
+	}
+
+	const resourceType = request.resourceType();
+	if (resourceType !== "fetch" && resourceType !== "xhr") {
+		return false;
+	}
+
+	const mimeType = contentType.split(";")[0].trim().toLowerCase();
+	return config.bodyContentTypes.some((pattern) =>
+		matchesContentType(pattern, mimeType),
+	);
+}
+
+function matchesContentType(pattern: string, mimeType: string): boolean {
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${source}$`).test(mimeType);
+}
+
+function bodyEvent(
+	direction: MessageDirection,
+	body: Buffer,
+	config: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig,
+	time: Date,
+): SpanEvent {
+	const text = body.toString("utf8");
+	const attributes: Record<string, SpanAttributeValue> = {
+		[`http.${direction}.body.content`]: text.slice(0, config.maxBodyLength),
+		[`http.${direction}.body.size`]: body.length,
+	};
+	if (text.length > config.maxBodyLength) {
+		attributes[`http.${direction}.body.truncated`] = true;
+	}
+	return { name: `http.${direction}.body`, time, attributes };
+}
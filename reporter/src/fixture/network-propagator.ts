@@ -1,5 +1,7 @@
 import type { Request, Route } from "@playwright/test";
+import type { PlaywrightOpentelemetryPropagator } from "../shared/config";
 import { generateSpanId } from "../shared/otel";
+import { mergePropagationHeaders } from "./test-identity";
 import type { TestTraceContext } from "./trace-context";
 
 export interface StoreRequestTraceContextOptions {
@@ -14,6 +16,10 @@ export interface PropagateRouteTraceHeadersOptions {
 	request: Request;
 	traceId: string;
 	spanId: string;
+	/** Defaults to `["tracecontext"]`. */
+	propagators?: PlaywrightOpentelemetryPropagator[];
+	/** Sent with the trace headers, e.g. `baggage` and `tracestate`. */
+	propagationHeaders?: Record<string, string>;
 }
 
 export function storeRequestTraceContext({
@@ -35,7 +41,8 @@ export function storeRequestTraceContext({
 }
 
 /**
- * Intercepts network requests to propagate trace context via traceparent header.
+ * Intercepts network requests to propagate trace context in the header
+ * formats of the configured propagators.
  * @param options - The propagator options
  */
 export async function propagateRouteTraceHeaders({
@@ -43,13 +50,73 @@ export async function propagateRouteTraceHeaders({
 	request,
 	traceId,
 	spanId,
+	propagators = ["tracecontext"],
+	propagationHeaders,
 }: PropagateRouteTraceHeadersOptions): Promise<void> {
-	const traceHeader = `00-${traceId}-${spanId}-01`;
-
 	await route.fallback({
-		headers: {
-			...request.headers(),
-			traceparent: traceHeader,
-		},
+		headers: mergePropagationHeaders(
+			request.headers(),
+			tracePropagationHeaders({
+				traceId,
+				spanId,
+				propagators,
+				propagationHeaders,
+			}),
+		),
 	});
 }
+
+/**
+ * Trace headers of every propagator plus the test's propagation headers,
+ * ready for {@link mergePropagationHeaders}.
+ */
+export function tracePropagationHeaders({
+	traceId,
+	spanId,
+	propagators,
+	propagationHeaders = {},
+}: {
+	traceId: string;
+	spanId: string;
+	propagators: PlaywrightOpentelemetryPropagator[];
+	propagationHeaders?: Record<string, string>;
+}): Record<string, string> {
+	const { tracestate, ...otherPropagationHeaders } = propagationHeaders;
+	const headers: Record<string, string> = {};
+	for (const propagator of propagators) {
+		Object.assign(headers, traceHeaders(propagator, traceId, spanId));
+	}
+	// tracestate only means something next to a traceparent.
+	if (tracestate && propagators.includes("tracecontext")) {
+		headers.tracestate = tracestate;
+	}
+	return { ...headers, ...otherPropagationHeaders };
+}
+
+/** Headers of one propagation format for a sampled span. */
+export function traceHeaders(
+	propagator: PlaywrightOpentelemetryPropagator,
+	traceId: string,
+	spanId: string,
+): Record<string, string> {
+	switch (propagator) {
+		case "tracecontext":
+			return { traceparent: `00-${traceId}-${spanId}-01` };
+		case "b3":
+			return { b3: `${traceId}-${spanId}-1` };
+		case "b3multi":
+			return {
+				"x-b3-traceid": traceId,
+				"x-b3-spanid": spanId,
+				"x-b3-sampled": "1",
+			};
+		case "jaeger":
+			// trace-id:span-id:parent-span-id:flags, with the deprecated parent left 0.
+			return { "uber-trace-id": `${traceId}:${spanId}:0:1` };
+		case "xray":
+			// X-Ray trace IDs split the 32 hex digits after the version: 1-8-24.
+			return {
+				"x-amzn-trace-id": `Root=1-${traceId.slice(0, 8)}-${traceId.slice(8)};Parent=${spanId};Sampled=1`,
+			};
+	}
+}
@@ -1,9 +1,14 @@
 import path from "node:path";
-import type { Request, Response, test as base } from "@playwright/test";
+import type { test as base, Request, Response } from "@playwright/test";
 import {
-	resolvePlaywrightOpentelemetryConfig,
 	type PlaywrightOpentelemetryUseOptions,
+	type ResolvedPlaywrightOpentelemetryConfig,
+	resolvePlaywrightOpentelemetryConfig,
 } from "../shared/config";
+import {
+	instrumentAPIRequestContext,
+	instrumentNewAPIRequestContexts,
+} from "./api-request-capture";
 import { BrowserPageTracker } from "./browser-page-tracker";
 import {
 	propagateRouteTraceHeaders,
@@ -13,8 +18,12 @@ import {
 	hasPlaywrightOpentelemetryReporter,
 	MISSING_PLAYWRIGHT_OPENTELEMETRY_REPORTER_ERROR,
 } from "./reporter-config";
-import { fixtureCaptureRequestResponse } from "./request-response-capture";
+import {
+	fixtureCaptureRequestFailure,
+	fixtureCaptureRequestResponse,
+} from "./request-response-capture";
 import { runWithTestFetchCapture } from "./test-fetch-capture";
+import { testPropagationHeaders } from "./test-identity";
 import {
 	createTestTraceContext,
 	flushFixtureSpans,
@@ -27,6 +36,8 @@ type TestTraceInfo = {
 };
 
 type PlaywrightOpentelemetryFixtures = {
+	/** `playwrightOpentelemetry` resolved once per test for the other fixtures. */
+	playwrightOpentelemetryConfig: ResolvedPlaywrightOpentelemetryConfig;
 	testTraceInfo: TestTraceInfo;
 	testTraceContext: TestTraceContext;
 	browserPageTracker: BrowserPageTracker;
@@ -64,13 +75,34 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 			},
 			{ auto: true },
 		],
+		playwrightOpentelemetryConfig: async ({ playwrightOpentelemetry }, use) => {
+			await use(resolvePlaywrightOpentelemetryConfig(playwrightOpentelemetry));
+		},
 		testTraceContext: [
-			async ({ playwrightOpentelemetry, trace }, use, testInfo) => {
-				const config = resolvePlaywrightOpentelemetryConfig(
-					playwrightOpentelemetry,
-				);
+			async (
+				{ playwright, playwrightOpentelemetryConfig: config, trace },
+				use,
+				testInfo,
+			) => {
 				const traceContext = await createTestTraceContext(testInfo);
-				await runWithTestFetchCapture(traceContext, () => use(traceContext));
+				if (config.propagateTraceHeaders) {
+					traceContext.propagationHeaders = testPropagationHeaders(
+						config,
+						testInfo,
+					);
+					traceContext.propagatesTo = config.traceHeaderOrigins;
+					traceContext.propagators = config.propagators;
+				}
+				const restoreNewContext = instrumentNewAPIRequestContexts(
+					playwright.request,
+					traceContext,
+					config,
+				);
+				try {
+					await runWithTestFetchCapture(traceContext, () => use(traceContext));
+				} finally {
+					restoreNewContext();
+				}
 				await flushFixtureSpans(traceContext, config, {
 					trace: config.trace ?? trace,
 					testInfo,
@@ -79,8 +111,11 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 			{ auto: true },
 		],
 		browserPageTracker: [
-			async ({ testTraceContext }, use) => {
-				const tracker = new BrowserPageTracker(testTraceContext);
+			async ({ playwrightOpentelemetryConfig, testTraceContext }, use) => {
+				const tracker = new BrowserPageTracker(
+					testTraceContext,
+					playwrightOpentelemetryConfig.webSockets,
+				);
 				await use(tracker);
 				tracker.finishAll();
 			},
@@ -89,15 +124,12 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 		context: async (
 			{
 				context,
-				playwrightOpentelemetry,
+				playwrightOpentelemetryConfig: config,
 				testTraceContext,
 				browserPageTracker,
 			},
 			use,
 		) => {
-			const config = resolvePlaywrightOpentelemetryConfig(
-				playwrightOpentelemetry,
-			);
 			context.route("**", async (route, request) => {
 				browserPageTracker.startDocumentNavigation(request);
 				const networkParent = browserPageTracker.getNetworkParent(request);
@@ -108,12 +140,18 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 					routeAssociation: networkParent.routeAssociation,
 				});
 
-				if (config.propagateTraceHeaders) {
+				// Requests to other origins are still recorded, just not propagated.
+				if (
+					config.propagateTraceHeaders &&
+					config.traceHeaderOrigins(request.url())
+				) {
 					await propagateRouteTraceHeaders({
 						route,
 						request,
 						traceId: testTraceContext.traceId,
 						spanId,
+						propagators: config.propagators,
+						propagationHeaders: testTraceContext.propagationHeaders,
 					});
 					return;
 				}
@@ -122,7 +160,27 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 			});
 			await use(context);
 		},
-		page: async ({ page, testTraceContext, browserPageTracker }, use) => {
+		request: async (
+			{ request, baseURL, playwrightOpentelemetryConfig, testTraceContext },
+			use,
+		) => {
+			instrumentAPIRequestContext(
+				request,
+				testTraceContext,
+				playwrightOpentelemetryConfig,
+				baseURL,
+			);
+			await use(request);
+		},
+		page: async (
+			{
+				page,
+				playwrightOpentelemetryConfig,
+				testTraceContext,
+				browserPageTracker,
+			},
+			use,
+		) => {
 			browserPageTracker.registerPage(page);
 			page.on("close", () => browserPageTracker.unregisterPage(page));
 			page.on("console", (message) => {
@@ -131,6 +189,9 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 			page.on("pageerror", (error) => {
 				browserPageTracker.recordPageError(page, error);
 			});
+			page.on("websocket", (webSocket) => {
+				browserPageTracker.trackWebSocket(page, webSocket);
+			});
 			page.on("framenavigated", (frame) => {
 				if (frame === page.mainFrame()) {
 					browserPageTracker.handleFrameNavigated(page, frame.url());
@@ -168,6 +229,17 @@ export function createPlaywrightOtelTest<T extends typeof base>(testBase: T) {
 					request,
 					response,
 					traceContext: testTraceContext,
+					networkCapture: playwrightOpentelemetryConfig.networkCapture,
+				});
+			});
+
+			page.on("requestfailed", (request) => {
+				// A request can fail after its response arrived, while the body downloads.
+				pendingRequests.delete(request);
+				fixtureCaptureRequestFailure({
+					request,
+					traceContext: testTraceContext,
+					networkCapture: playwrightOpentelemetryConfig.networkCapture,
 				});
 			});
 
@@ -1,4 +1,12 @@
 import type { Request, Response } from "@playwright/test";
+import type { ResolvedPlaywrightOpentelemetryNetworkCaptureConfig } from "../shared/config";
+import type { SpanAttributeValue, SpanEvent } from "../shared/otel";
+import {
+	requestBodyEvent,
+	requestHeaderAttributes,
+	responseBodyEvent,
+	responseHeaderAttributes,
+} from "./network-capture";
 import {
 	BROWSER_SERVICE_NAME,
 	type FixtureSpan,
@@ -9,6 +17,16 @@ export interface FixtureCaptureOptions {
 	request: Request;
 	response: Response;
 	traceContext: TestTraceContext;
+	/** Headers and bodies to record. Nothing extra is recorded when omitted. */
+	networkCapture?: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig;
+}
+
+export interface FixtureCaptureFailureOptions {
+	request: Request;
+	traceContext: TestTraceContext;
+	/** When the `requestfailed` event fired. */
+	failedAt?: Date;
+	networkCapture?: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig;
 }
 
 /**
@@ -226,6 +244,7 @@ export async function fixtureCaptureRequestResponse({
 	request,
 	response,
 	traceContext,
+	networkCapture,
 }: FixtureCaptureOptions): Promise<void> {
 	const url = request.url();
 	const method = request.method();
@@ -247,16 +266,6 @@ export async function fixtureCaptureRequestResponse({
 			? new Date(timing.startTime + timing.responseEnd)
 			: new Date(timing.startTime);
 
-	// Parse URL for attributes
-	const parsedUrl = new URL(url);
-	const serverAddress = parsedUrl.hostname;
-	const serverPort =
-		parsedUrl.port !== ""
-			? Number.parseInt(parsedUrl.port, 10)
-			: parsedUrl.protocol === "https:"
-				? 443
-				: 80;
-
 	// Determine span status based on response
 	// For HTTP client spans: 4xx and 5xx should be ERROR
 	let statusCodeValue = SPAN_STATUS_CODE_UNSET;
@@ -270,28 +279,41 @@ export async function fixtureCaptureRequestResponse({
 	// Detect resource type from Content-Type with URL extension fallback
 	const resourceType = detectResourceType(contentType, url);
 
-	// Build attributes following OpenTelemetry HTTP semantic conventions
-	const attributes: Record<string, string | number | boolean> = {
-		"http.request.method": method,
-		"url.full": url,
-		"url.path": parsedUrl.pathname,
-		"server.address": serverAddress,
-		"server.port": serverPort,
-		"http.response.status_code": statusCode,
-		"http.resource.type": resourceType,
-		"browser.request.route_association": requestTraceContext.routeAssociation,
-	};
-
-	// Add query string if present (without the leading '?')
-	if (parsedUrl.search) {
-		attributes["url.query"] = parsedUrl.search.slice(1);
-	}
+	const attributes = requestAttributes(
+		method,
+		url,
+		requestTraceContext.routeAssociation,
+	);
+	attributes["http.response.status_code"] = statusCode;
+	attributes["http.resource.type"] = resourceType;
 
 	// For error responses, set error.type to the status code
 	if (statusCodeValue === SPAN_STATUS_CODE_ERROR) {
 		attributes["error.type"] = statusCode.toString();
 	}
 
+	const events: SpanEvent[] = [];
+	if (networkCapture) {
+		Object.assign(
+			attributes,
+			requestHeaderAttributes(request, networkCapture),
+			responseHeaderAttributes(response, networkCapture),
+		);
+		const requestBody = requestBodyEvent(request, networkCapture, startTime);
+		const responseBody = await responseBodyEvent(
+			request,
+			response,
+			contentType,
+			networkCapture,
+			endTime,
+		);
+		for (const event of [requestBody, responseBody]) {
+			if (event) {
+				events.push(event);
+			}
+		}
+	}
+
 	// Create the network span
 	const networkSpan: FixtureSpan = {
 		traceId: requestTraceContext.traceId,
@@ -303,13 +325,110 @@ export async function fixtureCaptureRequestResponse({
 		endTime,
 		status: { code: statusCodeValue },
 		attributes,
-		events: [],
+		events,
 		serviceName: BROWSER_SERVICE_NAME,
 	};
 
 	traceContext.addSpan(networkSpan);
 }
 
+/**
+ * Records a request that failed before completing, such as a `net::ERR_*`
+ * error, an abort or a timeout, as an error span. The span reuses the span
+ * ID stored when the request was routed, so it matches the `traceparent`
+ * the request was sent with.
+ *
+ * @param options - The capture options
+ */
+export function fixtureCaptureRequestFailure({
+	request,
+	traceContext,
+	failedAt = new Date(),
+	networkCapture,
+}: FixtureCaptureFailureOptions): void {
+	const requestTraceContext = traceContext.requestContexts.get(request);
+
+	if (!requestTraceContext) {
+		return;
+	}
+
+	const url = request.url();
+	const method = request.method();
+	const errorText = request.failure()?.errorText ?? "request failed";
+	const timing = request.timing();
+	const startTime = new Date(timing.startTime);
+	const endTime =
+		timing.responseEnd >= 0
+			? new Date(timing.startTime + timing.responseEnd)
+			: failedAt;
+
+	const attributes = requestAttributes(
+		method,
+		url,
+		requestTraceContext.routeAssociation,
+	);
+	// Without a response, the resource type can only come from the URL.
+	attributes["http.resource.type"] = detectResourceType(null, url);
+	attributes["error.type"] = errorText;
+
+	const events: SpanEvent[] = [];
+	if (networkCapture) {
+		Object.assign(attributes, requestHeaderAttributes(request, networkCapture));
+		const requestBody = requestBodyEvent(request, networkCapture, startTime);
+		if (requestBody) {
+			events.push(requestBody);
+		}
+	}
+
+	traceContext.addSpan({
+		traceId: requestTraceContext.traceId,
+		spanId: requestTraceContext.spanId,
+		parentSpanId: requestTraceContext.parentSpanId,
+		name: `HTTP ${method}`,
+		kind: SPAN_KIND_CLIENT,
+		startTime,
+		endTime: endTime < startTime ? startTime : endTime,
+		status: { code: SPAN_STATUS_CODE_ERROR, message: errorText },
+		attributes,
+		events,
+		serviceName: BROWSER_SERVICE_NAME,
+	});
+}
+
+/**
+ * Builds the request attributes shared by completed and failed requests,
+ * following OpenTelemetry HTTP semantic conventions.
+ */
+function requestAttributes(
+	method: string,
+	url: string,
+	routeAssociation: string,
+): Record<string, SpanAttributeValue> {
+	const parsedUrl = new URL(url);
+	const serverPort =
+		parsedUrl.port !== ""
+			? Number.parseInt(parsedUrl.port, 10)
+			: parsedUrl.protocol === "https:"
+				? 443
+				: 80;
+
+	const attributes: Record<string, SpanAttributeValue> = {
+		"http.request.method": method,
+		"url.full": url,
+		"url.path": parsedUrl.pathname,
+		"server.address": parsedUrl.hostname,
+		"server.port": serverPort,
+		"browser.request.route_association": routeAssociation,
+	};
+
+	// Add query string if present (without the leading '?')
+	if (parsedUrl.search) {
+		attributes["url.query"] = parsedUrl.search.slice(1);
+	}
+
+	return attributes;
+}
+
 async function getResponseHeaderValue(
 	response: Response,
 	name: string,
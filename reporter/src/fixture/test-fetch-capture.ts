@@ -1,4 +1,6 @@
 import { generateSpanId } from "../shared/otel";
+import { tracePropagationHeaders } from "./network-propagator";
+import { mergePropagationHeaders } from "./test-identity";
 import type { FixtureSpan, TestTraceContext } from "./trace-context";
 
 const SPAN_KIND_CLIENT = 3;
@@ -54,13 +56,19 @@ const patchedFetch: typeof fetch = async (input, init) => {
 		return globalThis.fetch(input, init);
 	}
 
+	// The server sees this span's ID in traceparent, so it parents under it.
+	const spanId = generateSpanId();
 	const startTime = new Date();
 	try {
-		const response = await originalFetch(input, init);
+		const response = await originalFetch(
+			input,
+			withPropagationHeaders(input, init, traceContext, spanId),
+		);
 		traceContext.addSpan(
 			createFetchSpan({
 				input,
 				init,
+				spanId,
 				traceContext,
 				startTime,
 				endTime: new Date(),
@@ -73,6 +81,7 @@ const patchedFetch: typeof fetch = async (input, init) => {
 			createFetchSpan({
 				input,
 				init,
+				spanId,
 				traceContext,
 				startTime,
 				endTime: new Date(),
@@ -83,9 +92,39 @@ const patchedFetch: typeof fetch = async (input, init) => {
 	}
 };
 
+function withPropagationHeaders(
+	input: FetchInput,
+	init: FetchInit,
+	traceContext: TestTraceContext,
+	spanId: string,
+): FetchInit {
+	const { propagators, propagatesTo } = traceContext;
+	if (!propagators || (propagatesTo && !propagatesTo(getFetchUrl(input)))) {
+		return init;
+	}
+
+	// Headers in init replace those of a Request input, so start from both.
+	const headers = new Headers(
+		init?.headers ?? (input instanceof Request ? input.headers : undefined),
+	);
+	return {
+		...init,
+		headers: mergePropagationHeaders(
+			Object.fromEntries(headers),
+			tracePropagationHeaders({
+				traceId: traceContext.traceId,
+				spanId,
+				propagators,
+				propagationHeaders: traceContext.propagationHeaders,
+			}),
+		),
+	};
+}
+
 function createFetchSpan({
 	input,
 	init,
+	spanId,
 	traceContext,
 	startTime,
 	endTime,
@@ -94,20 +133,55 @@ function createFetchSpan({
 }: {
 	input: FetchInput;
 	init: FetchInit;
+	spanId: string;
+	traceContext: TestTraceContext;
+	startTime: Date;
+	endTime: Date;
+	statusCode?: number;
+	error?: unknown;
+}): FixtureSpan {
+	return createHttpClientSpan({
+		method: getFetchMethod(input, init),
+		url: getFetchUrl(input),
+		resourceType: "fetch",
+		spanId,
+		traceContext,
+		startTime,
+		endTime,
+		statusCode,
+		error,
+	});
+}
+
+/** HTTP client span of a request made from the test process, under the test root. */
+export function createHttpClientSpan({
+	method,
+	url,
+	resourceType,
+	spanId = generateSpanId(),
+	traceContext,
+	startTime,
+	endTime,
+	statusCode,
+	error,
+}: {
+	method: string;
+	url: string;
+	/** `http.resource.type`, e.g. `fetch`. */
+	resourceType: string;
+	spanId?: string;
 	traceContext: TestTraceContext;
 	startTime: Date;
 	endTime: Date;
 	statusCode?: number;
 	error?: unknown;
 }): FixtureSpan {
-	const method = getFetchMethod(input, init);
-	const url = getFetchUrl(input);
-	const attributes = createHttpAttributes({ method, url, statusCode, error });
+	const attributes = createHttpAttributes({ method, url, resourceType, statusCode, error });
 	const failed = error !== undefined || (statusCode !== undefined && statusCode >= 400);
 
 	return {
 		traceId: traceContext.traceId,
-		spanId: generateSpanId(),
+		spanId,
 		parentSpanId: traceContext.rootSpanId,
 		name: `HTTP ${method}`,
 		kind: SPAN_KIND_CLIENT,
@@ -124,17 +198,19 @@ function createFetchSpan({
 function createHttpAttributes({
 	method,
 	url,
+	resourceType,
 	statusCode,
 	error,
 }: {
 	method: string;
 	url: string;
+	resourceType: string;
 	statusCode?: number;
 	error?: unknown;
 }): FixtureSpan["attributes"] {
 	const attributes: FixtureSpan["attributes"] = {
 		"http.request.method": method,
-		"http.resource.type": "fetch",
+		"http.resource.type": resourceType,
 		"url.full": url,
 	};
 
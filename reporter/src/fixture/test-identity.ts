@@ -0,0 +1,85 @@
+import type { TestInfo } from "@playwright/test";
+import type { ResolvedPlaywrightOpentelemetryConfig } from "../shared/config";
+
+export type TestIdentityInfo = Pick<
+	TestInfo,
+	"testId" | "title" | "project" | "retry"
+>;
+
+/**
+ * Headers sent with the test's `traceparent`: a W3C `baggage` header with the
+ * test identity, and a `tracestate` header with the test ID in front of the
+ * incoming `TRACESTATE` entries.
+ */
+export function testPropagationHeaders(
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	testInfo: TestIdentityInfo,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+	const identity = config.propagateTestIdentity;
+
+	if (identity) {
+		const { testId, title, project, retry } = identity.baggageKeys;
+		const baggage = (
+			[
+				[testId, testInfo.testId],
+				[title, testInfo.title],
+				[project, testInfo.project.name],
+				[retry, String(testInfo.retry)],
+			] as const
+		)
+			.filter(([key]) => key !== false)
+			.map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+		if (baggage.length > 0) {
+			headers.baggage = baggage.join(",");
+		}
+	}
+
+	const tracestateKey = identity?.tracestateKey;
+	const traceState = [
+		...(tracestateKey ? [`${tracestateKey}=${testInfo.testId}`] : []),
+		// A vendor key may only appear once, and updated entries move first.
+		...(config.parentTraceContext?.traceState ?? "")
+			.split(",")
+			.map((entry) => entry.trim())
+			.filter((entry) => entry && entry.split("=")[0].trim() !== tracestateKey),
+	];
+	if (traceState.length > 0) {
+		headers.tracestate = traceState.join(",");
+	}
+
+	return headers;
+}
+
+/**
+ * Add propagation headers to request headers. Baggage set by the app or the
+ * test is kept in front of the test identity.
+ */
+export function mergePropagationHeaders(
+	headers: Record<string, string>,
+	propagationHeaders: Record<string, string>,
+): Record<string, string> {
+	const merged = { ...headers };
+	for (const [name, value] of Object.entries(propagationHeaders)) {
+		const existing = name === "baggage" ? headerValue(merged, name) : undefined;
+		deleteHeader(merged, name);
+		merged[name] = existing ? `${existing},${value}` : value;
+	}
+	return merged;
+}
+
+function headerValue(
+	headers: Record<string, string>,
+	name: string,
+): string | undefined {
+	const key = Object.keys(headers).find((key) => key.toLowerCase() === name);
+	return key === undefined ? undefined : headers[key];
+}
+
+function deleteHeader(headers: Record<string, string>, name: string): void {
+	for (const key of Object.keys(headers)) {
+		if (key.toLowerCase() === name) {
+			delete headers[key];
+		}
+	}
+}
@@ -1,14 +1,22 @@
 import type { TestInfo } from "@playwright/test";
-import type { PlaywrightTraceOption } from "../shared/playwright-trace";
+import type {
+	PlaywrightOpentelemetryPropagator,
+	ResolvedPlaywrightOpentelemetryConfig,
+} from "../shared/config";
 import {
 	generateSpanId,
 	generateTraceId,
-	sendSpans,
+	type OtlpCompression,
+	type OtlpProtocol,
 	type Span,
 	type SpanEvent,
+	sendSpans,
 } from "../shared/otel";
-import type { ResolvedPlaywrightOpentelemetryConfig } from "../shared/config";
+import { sendLogs, spanEventsToLogRecords } from "../shared/otlp-logs";
+import type { PlaywrightTraceOption } from "../shared/playwright-trace";
 import { shouldRetainPlaywrightTrace } from "../shared/playwright-trace";
+import { shouldSampleTest } from "../shared/sampling";
+import { applySpanProcessors } from "../shared/span-processors";
 
 export const TRACE_CONTEXT_ATTACHMENT_NAME =
 	"playwright-opentelemetry-trace-context";
@@ -37,7 +45,10 @@ export interface PlaywrightOtelFixtureSpansAttachment {
 
 type FlushFixtureSpansOptions = {
 	trace: PlaywrightTraceOption | undefined;
-	testInfo?: Pick<TestInfo, "attach" | "expectedStatus" | "retry" | "status">;
+	testInfo?: Pick<
+		TestInfo,
+		"attach" | "expectedStatus" | "project" | "retry" | "status" | "tags"
+	>;
 };
 
 export interface NetworkRequestTraceContext {
@@ -49,6 +60,12 @@ export interface NetworkRequestTraceContext {
 
 export interface TestTraceContext extends PlaywrightOtelTraceContextAttachment {
 	spans: FixtureSpan[];
+	/** Sent with `traceparent` on browser requests and test-process fetches. */
+	propagationHeaders?: Record<string, string>;
+	/** Whether a request URL gets `propagationHeaders`. Defaults to every URL. */
+	propagatesTo?: (url: string) => boolean;
+	/** Trace header formats for test-process fetches. Unset when propagation is off. */
+	propagators?: PlaywrightOpentelemetryPropagator[];
 	requestContexts: WeakMap<object, NetworkRequestTraceContext>;
 	addSpan(span: FixtureSpan): void;
 }
@@ -89,41 +106,84 @@ export async function flushFixtureSpans(
 	if (!shouldRetainPlaywrightTrace(options.trace, options.testInfo)) {
 		return;
 	}
+	if (
+		options.testInfo &&
+		!shouldSampleTest(config.sampling, {
+			traceId: traceContext.traceId,
+			projectName: options.testInfo.project.name,
+			tags: options.testInfo.tags,
+			expectedStatus: options.testInfo.expectedStatus,
+			retry: options.testInfo.retry,
+			status: options.testInfo.status,
+		})
+	) {
+		return;
+	}
+
+	const spans = applySpanProcessors(traceContext.spans, config.spanProcessors);
+	if (spans.length === 0) {
+		return;
+	}
 
 	if (config.storeTraceZip && options.testInfo) {
 		await options.testInfo.attach(FIXTURE_SPANS_ATTACHMENT_NAME, {
 			body: JSON.stringify({
-				spans: traceContext.spans.map(serializeSpanForAttachment),
+				spans: spans.map(serializeSpanForAttachment),
 			}),
 			contentType: "application/json",
 		});
 	}
 
 	const destinations = fixtureSpanDestinations(config);
-	if (destinations.length === 0) {
+	const logsDestinations = config.otlpLogsDestinations.filter(
+		(destination) => destination.url,
+	);
+	if (destinations.length === 0 && logsDestinations.length === 0) {
 		return;
 	}
 
-	await Promise.all(
-		destinations.map((destination) =>
-			sendSpans(traceContext.spans, {
+	// Console messages and page errors are also exported as log records.
+	const logRecords =
+		logsDestinations.length > 0 ? spanEventsToLogRecords(spans) : [];
+
+	await Promise.all([
+		...destinations.map((destination) =>
+			sendSpans(spans, {
 				tracesEndpoint: destination.tracesEndpoint,
 				headers: destination.headers,
+				protocol: destination.protocol,
+				compression: destination.compression,
 				playwrightVersion: "unknown",
 				debug: config.debug,
+				retry: config.exportRetry,
+				spoolDir: config.spoolDir,
+				resourceAttributes: config.resourceAttributes,
 			}),
 		),
-	);
+		...logsDestinations.map((destination) =>
+			sendLogs(logRecords, {
+				logsEndpoint: destination.url,
+				headers: destination.headers,
+				protocol: destination.protocol,
+				compression: destination.compression,
+				playwrightVersion: "unknown",
+				debug: config.debug,
+				retry: config.exportRetry,
+				spoolDir: config.spoolDir,
+				resourceAttributes: config.resourceAttributes,
+			}),
+		),
+	]);
 }
 
 function serializeSpanForAttachment(
-	span: FixtureSpan,
+	span: Span,
 ): PlaywrightOtelFixtureSpansAttachment["spans"][number] {
 	return {
 		...span,
 		startTime: span.startTime.toISOString(),
 		endTime: span.endTime.toISOString(),
-		events: span.events.map((event) => ({
+		events: (span.events ?? []).map((event) => ({
 			...event,
 			time: event.time.toISOString(),
 		})),
@@ -135,10 +195,14 @@ function fixtureSpanDestinations(
 ): Array<{
 	tracesEndpoint: string;
 	headers: Record<string, string>;
+	protocol?: OtlpProtocol;
+	compression?: OtlpCompression;
 }> {
 	const destinations: Array<{
 		tracesEndpoint: string;
 		headers: Record<string, string>;
+		protocol?: OtlpProtocol;
+		compression?: OtlpCompression;
 	}> = [];
 
 	for (const destination of config.playwrightTraceApiDestinations) {
@@ -149,6 +213,7 @@ function fixtureSpanDestinations(
 		destinations.push({
 			tracesEndpoint: `${destination.url}/v1/traces`,
 			headers: destination.headers,
+			compression: destination.compression,
 		});
 	}
 
@@ -160,6 +225,8 @@ function fixtureSpanDestinations(
 		destinations.push({
 			tracesEndpoint: destination.url,
 			headers: destination.headers,
+			protocol: destination.protocol,
+			compression: destination.compression,
 		});
 	}
 
@@ -1,9 +1,22 @@
 import { PlaywrightOpentelemetryReporter } from "./reporter/reporter";
 
 export type {
+	PlaywrightOpentelemetryBatchExportConfig,
 	PlaywrightOpentelemetryConfig,
 	PlaywrightOpentelemetryDestination,
+	PlaywrightOpentelemetryExportRetryConfig,
+	PlaywrightOpentelemetryNetworkCaptureConfig,
+	PlaywrightOpentelemetryPropagator,
+	PlaywrightOpentelemetryRedactionConfig,
+	PlaywrightOpentelemetryReporterOptions,
+	PlaywrightOpentelemetrySamplingConfig,
+	PlaywrightOpentelemetrySpan,
+	PlaywrightOpentelemetrySpanProcessor,
+	PlaywrightOpentelemetryTestIdentityConfig,
+	PlaywrightOpentelemetryTestOutputConfig,
+	PlaywrightOpentelemetryTraceHeaderOriginsConfig,
 	PlaywrightOpentelemetryUseOptions,
+	PlaywrightOpentelemetryWebSocketConfig,
 } from "./shared/config";
 export type { PlaywrightTraceOption } from "./shared/playwright-trace";
 
@@ -0,0 +1,173 @@
+import type { ResolvedPlaywrightOpentelemetryBatchExportConfig } from "../shared/config";
+import type { SendSpansOptions, SendSpansOutcome, Span } from "../shared/otel";
+import type { LogRecord, SendLogsOptions } from "../shared/otlp-logs";
+import {
+	replaySpooledLogs,
+	replaySpooledSpans,
+	sendLogs,
+	sendSpans,
+} from "./sender";
+
+type BatchExportTarget<T> = {
+	/** Plural name of the exported items, used in warnings. */
+	itemName: string;
+	endpoint: string;
+	spoolDir?: string;
+	send: (batch: T[]) => Promise<SendSpansOutcome>;
+	replaySpooled: () => Promise<void>;
+};
+
+/**
+ * Sends items to one destination in batches while the run is in progress.
+ *
+ * Items are sent as soon as a full batch is queued, or after
+ * `scheduledDelayMillis` for partially filled batches. Only one request is in
+ * flight at a time; items that arrive while `maxQueueSize` items are already
+ * waiting are dropped so long runs keep bounded memory.
+ */
+class BatchExporter<T> {
+	private queue: T[] = [];
+	private exporting?: Promise<void>;
+	private timer?: ReturnType<typeof setTimeout>;
+	private shuttingDown = false;
+	private droppedItems = 0;
+	private spooledBatches = 0;
+	private errors: unknown[] = [];
+
+	constructor(
+		private readonly target: BatchExportTarget<T>,
+		private readonly config: ResolvedPlaywrightOpentelemetryBatchExportConfig,
+	) {}
+
+	add(items: T[]): void {
+		for (const item of items) {
+			if (this.queue.length >= this.config.maxQueueSize) {
+				this.droppedItems++;
+				continue;
+			}
+			this.queue.push(item);
+		}
+
+		if (this.queue.length >= this.config.maxExportBatchSize) {
+			this.startExport(false);
+		} else if (this.queue.length > 0) {
+			this.startTimer();
+		}
+	}
+
+	/**
+	 * Sends every queued item, then reports dropped items and rethrows the
+	 * first send error so failed exports still fail the run. When every batch
+	 * was delivered, requests spooled by earlier runs are replayed.
+	 */
+	async shutdown(): Promise<void> {
+		this.shuttingDown = true;
+		this.clearTimer();
+		while (this.exporting || this.queue.length > 0) {
+			this.startExport(true);
+			await this.exporting;
+		}
+
+		if (this.droppedItems > 0) {
+			console.warn(
+				`playwright-opentelemetry dropped ${this.droppedItems} ${this.target.itemName} for ${this.target.endpoint} because the export queue was full (maxQueueSize: ${this.config.maxQueueSize}).`,
+			);
+		}
+
+		if (this.errors.length > 0) {
+			throw this.errors[0];
+		}
+
+		if (this.target.spoolDir && this.spooledBatches === 0) {
+			await this.target.replaySpooled();
+		}
+	}
+
+	private startExport(flushPartialBatch: boolean): void {
+		if (this.exporting) {
+			return;
+		}
+
+		this.clearTimer();
+		this.exporting = this.exportQueuedBatches(flushPartialBatch).finally(() => {
+			this.exporting = undefined;
+			if (this.queue.length > 0 && !this.shuttingDown) {
+				this.startTimer();
+			}
+		});
+	}
+
+	private async exportQueuedBatches(flushPartialBatch: boolean): Promise<void> {
+		while (
+			this.queue.length >= this.config.maxExportBatchSize ||
+			(flushPartialBatch && this.queue.length > 0)
+		) {
+			const batch = this.queue.splice(0, this.config.maxExportBatchSize);
+			try {
+				if ((await this.target.send(batch)) === "spooled") {
+					this.spooledBatches++;
+				}
+			} catch (error) {
+				this.errors.push(error);
+			}
+		}
+	}
+
+	private startTimer(): void {
+		if (this.timer || this.exporting) {
+			return;
+		}
+
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.startExport(true);
+		}, this.config.scheduledDelayMillis);
+		// Never keep the Playwright process alive just to flush exports.
+		this.timer.unref?.();
+	}
+
+	private clearTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+	}
+}
+
+/** Batches spans for one traces destination. */
+export class BatchSpanExporter extends BatchExporter<Span> {
+	constructor(
+		options: SendSpansOptions,
+		config: ResolvedPlaywrightOpentelemetryBatchExportConfig,
+	) {
+		super(
+			{
+				itemName: "spans",
+				endpoint: options.tracesEndpoint,
+				spoolDir: options.spoolDir,
+				send: (spans) => sendSpans(spans, options),
+				replaySpooled: () => replaySpooledSpans(options),
+			},
+			config,
+		);
+	}
+}
+
+/** Batches log records for one logs destination, across tests. */
+export class BatchLogExporter extends BatchExporter<LogRecord> {
+	constructor(
+		options: SendLogsOptions,
+		config: ResolvedPlaywrightOpentelemetryBatchExportConfig,
+	) {
+		super(
+			{
+				itemName: "log records",
+				endpoint: options.logsEndpoint,
+				spoolDir: options.spoolDir,
+				send: (records) => sendLogs(records, options),
+				replaySpooled: () => replaySpooledLogs(options),
+			},
+			config,
+		);
+	}
+}
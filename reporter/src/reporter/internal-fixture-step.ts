@@ -0,0 +1,19 @@
+import type { TestStep } from "@playwright/test/reporter";
+
+/** Fixture steps of this package, which are not exported as spans. */
+export function isInternalFixtureStep(step: TestStep): boolean {
+	if (step.category !== "fixture" || !step.location?.file) {
+		return false;
+	}
+
+	const file = step.location.file.replace(/\\/g, "/");
+	return INTERNAL_FIXTURE_FILE_PATTERNS.some((pattern) => pattern.test(file));
+}
+
+const INTERNAL_FIXTURE_FILE_PATTERNS = [
+	/(?:^|\/)dist\/playwright-opentelemetry-fixture-[^/]+\.(?:mjs|cjs|js)$/,
+	/(?:^|\/)playwright-opentelemetry\/dist\/fixture\.(?:mjs|cjs|js)$/,
+	/(?:^|\/)playwright-opentelemetry\/dist\/playwright-opentelemetry-fixture-[^/]+\.(?:mjs|cjs|js)$/,
+	/(?:^|\/)playwright-opentelemetry\/dist\/fixture\/index\.(?:mjs|cjs|js)$/,
+	/(?:^|\/)playwright-opentelemetry\/(?:reporter\/)?src\/fixture\/playwright-opentelemetry-fixture\.ts$/,
+] as const;
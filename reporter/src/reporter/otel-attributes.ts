@@ -1,6 +1,13 @@
 // https://github.com/open-telemetry/opentelemetry-js/blob/52d82f0daf07f345ef32b6588913db6efed55875/semantic-conventions/src/stable_attributes.ts#L173
 export const ATTR_CODE_FILE_PATH = "code.file.path" as const;
 export const ATTR_CODE_LINE_NUMBER = "code.line.number" as const;
+export const ATTR_CODE_COLUMN_NUMBER = "code.column.number" as const;
+
+// https://opentelemetry.io/docs/specs/semconv/exceptions/exceptions-spans/
+export const EXCEPTION_EVENT_NAME = "exception" as const;
+export const ATTR_EXCEPTION_TYPE = "exception.type" as const;
+export const ATTR_EXCEPTION_MESSAGE = "exception.message" as const;
+export const ATTR_EXCEPTION_STACKTRACE = "exception.stacktrace" as const;
 
 // https://github.com/open-telemetry/opentelemetry-js/blob/52d82f0daf07f345ef32b6588913db6efed55875/semantic-conventions/src/experimental_attributes.ts#L13509
 export const ATTR_TEST_CASE_NAME = "test.case.name" as const;
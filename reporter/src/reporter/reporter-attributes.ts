@@ -1,5 +1,42 @@
 export const TEST_SPAN_NAME = "playwright.test" as const;
 export const TEST_STEP_SPAN_NAME = "playwright.test.step" as const;
+export const ATTR_TEST_RETRY = "playwright.test.retry" as const;
+export const ATTR_TEST_TAGS = "playwright.test.tags" as const;
+/** Suffixed with the annotation type, e.g. `playwright.test.annotation.issue`. */
+export const ATTR_TEST_ANNOTATION_PREFIX =
+	"playwright.test.annotation." as const;
 export const ATTR_TEST_STEP_NAME = "test.step.name" as const;
 export const ATTR_TEST_STEP_TITLE = "test.step.title" as const;
 export const ATTR_TEST_STEP_CATEGORY = "test.step.category" as const;
+export const ATTR_TEST_LOG_DROPPED_EVENTS =
+	"playwright.test.log.dropped_events" as const;
+export const ATTR_ERROR_SNIPPET = "playwright.error.snippet" as const;
+export const LOG_EVENT_NAME = "log" as const;
+export const ATTR_LOG_IOSTREAM = "log.iostream" as const;
+export const ATTR_LOG_TRUNCATED = "playwright.log.truncated" as const;
+export const RUN_SPAN_NAME = "playwright.run" as const;
+export const ATTR_RUN_ID = "playwright.run.id" as const;
+export const ATTR_RUN_PROJECTS = "playwright.run.projects" as const;
+export const ATTR_RUN_WORKERS = "playwright.run.workers" as const;
+export const ATTR_RUN_SHARD_CURRENT = "playwright.run.shard.current" as const;
+export const ATTR_RUN_SHARD_TOTAL = "playwright.run.shard.total" as const;
+export const ATTR_RUN_STATUS = "playwright.run.status" as const;
+export const ATTR_RUN_TESTS_TOTAL = "playwright.run.tests.total" as const;
+export const ATTR_RUN_TESTS_PASSED = "playwright.run.tests.passed" as const;
+export const ATTR_RUN_TESTS_FAILED = "playwright.run.tests.failed" as const;
+export const ATTR_RUN_TESTS_FLAKY = "playwright.run.tests.flaky" as const;
+export const ATTR_RUN_TESTS_SKIPPED = "playwright.run.tests.skipped" as const;
+export const WORKER_SPAN_NAME = "playwright.worker" as const;
+export const WORKER_FIXTURE_SPAN_NAME = "playwright.worker.fixture" as const;
+export const WORKER_CLEANUP_SPAN_NAME = "playwright.worker.cleanup" as const;
+export const ATTR_WORKER_INDEX = "playwright.worker.index" as const;
+export const ATTR_WORKER_PARALLEL_INDEX =
+	"playwright.worker.parallel_index" as const;
+export const ATTR_WORKER_TESTS = "playwright.worker.tests" as const;
+export const ATTR_PROJECT_NAME = "playwright.project.name" as const;
+export const ATTR_TEST_STATUS = "playwright.test.status" as const;
+export const ATTR_TEST_OUTCOME = "playwright.test.outcome" as const;
+export const TEST_DURATION_METRIC_NAME = "playwright.test.duration" as const;
+export const TEST_STEP_DURATION_METRIC_NAME =
+	"playwright.test.step.duration" as const;
+export const TEST_OUTCOMES_METRIC_NAME = "playwright.test.outcomes" as const;
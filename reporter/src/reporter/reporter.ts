@@ -14,18 +14,26 @@ import {
 } from "../fixture/trace-context";
 import {
 	type PlaywrightOpentelemetryConfig,
+	type PlaywrightOpentelemetryReporterOptions,
 	type PlaywrightOpentelemetryUseOptions,
-	type ResolvedPlaywrightOpentelemetryDestination,
 	type ResolvedPlaywrightOpentelemetryConfig,
+	type ResolvedPlaywrightOpentelemetryDestination,
 	resolvePlaywrightOpentelemetryConfig,
 } from "../shared/config";
 import {
 	generateSpanId,
 	generateTraceId,
+	type OtlpExportOptions,
 	type SendSpansOptions,
 	type Span,
+	type SpanLink,
 } from "../shared/otel";
+import { spanEventsToLogRecords } from "../shared/otlp-logs";
 import { shouldRetainPlaywrightTrace } from "../shared/playwright-trace";
+import { shouldSampleTest } from "../shared/sampling";
+import { applySpanProcessors } from "../shared/span-processors";
+import { BatchLogExporter, BatchSpanExporter } from "./batch-exporter";
+import { isInternalFixtureStep } from "./internal-fixture-step";
 import {
 	ATTR_CODE_FILE_PATH,
 	ATTR_CODE_LINE_NUMBER,
@@ -34,13 +42,33 @@ import {
 	ATTR_TEST_CASE_TITLE,
 } from "./otel-attributes";
 import {
+	ATTR_TEST_ANNOTATION_PREFIX,
+	ATTR_TEST_LOG_DROPPED_EVENTS,
+	ATTR_TEST_RETRY,
 	ATTR_TEST_STEP_CATEGORY,
 	ATTR_TEST_STEP_NAME,
 	ATTR_TEST_STEP_TITLE,
+	ATTR_TEST_TAGS,
 	TEST_SPAN_NAME,
 	TEST_STEP_SPAN_NAME,
 } from "./reporter-attributes";
-import { sendSpans } from "./sender";
+import { RunTracker } from "./run-tracker";
+import {
+	type LogRecord,
+	replaySpooledMetrics,
+	type SendLogsOptions,
+	type SendMetricsOptions,
+	sendMetrics,
+} from "./sender";
+import { cleanErrorMessage, testErrorEvents } from "./test-error-events";
+import {
+	getTestMetricAttributes,
+	TestMetricsRecorder,
+} from "./test-metrics-recorder";
+import {
+	TestOutputRecorder,
+	type TestOutputStream,
+} from "./test-output-recorder";
 import {
 	createScreenshotsZip,
 	createTraceZipBlob,
@@ -48,14 +76,10 @@ import {
 	type ScreenshotResource,
 	writeTraceZip,
 } from "./trace-zip-builder";
+import { WorkerTracker } from "./worker-tracker";
 
 export type { Span } from "../shared/otel";
 
-type SpanBatch = {
-	spans: Span[];
-	config: ResolvedPlaywrightOpentelemetryConfig;
-};
-
 type PendingTraceArtifact = {
 	outputDir: string;
 	test: TestCase;
@@ -78,27 +102,73 @@ type PreparedTraceArtifact = {
 	traceZipBlob?: Blob;
 };
 
+type ExportedTestAttempt = {
+	traceId: string;
+	spanId: string;
+	retry: number;
+};
+
+type ReporterConstructorOptions = PlaywrightOpentelemetryReporterOptions & {
+	/** Set by Playwright: "merge" when created by `playwright merge-reports`. */
+	_mode?: string;
+};
+
 export class PlaywrightOpentelemetryReporter implements Reporter {
-	private spanBatches: SpanBatch[] = [];
+	private exporters = new Map<string, BatchSpanExporter>();
 	private pendingTraceArtifacts: PendingTraceArtifact[] = [];
+	private logExporters = new Map<string, BatchLogExporter>();
+	private metrics = new Map<
+		string,
+		{ options: SendMetricsOptions; recorder: TestMetricsRecorder }
+	>();
+	private projectConfigs: ResolvedPlaywrightOpentelemetryConfig[] = [];
+	/** Resolved once per project; output chunks look their config up here. */
+	private configsByProject = new Map<
+		unknown,
+		ResolvedPlaywrightOpentelemetryConfig
+	>();
+	private runTracker?: RunTracker;
+	private workerTracker?: WorkerTracker;
+	private exportedAttempts = new Map<string, ExportedTestAttempt>();
+	private testOutput = new TestOutputRecorder();
 	private rootDir?: string;
 	private playwrightVersion?: string;
 	private debug = false;
+	private readonly reporterConfig: PlaywrightOpentelemetryConfig;
+	/** Replaying blob reports in `merge-reports` without exporting again. */
+	private readonly replayingMergedReports: boolean;
+
+	constructor(options: ReporterConstructorOptions = {}) {
+		const { exportOnMerge, _mode, ...reporterConfig } = options;
+		this.reporterConfig = reporterConfig;
+		const mergingReports =
+			_mode === "merge" || process.argv.includes("merge-reports");
+		this.replayingMergedReports = mergingReports && exportOnMerge !== true;
+	}
 
-	constructor() {}
-
-	onBegin(config: FullConfig, _suite: Suite) {
+	onBegin(config: FullConfig, suite: Suite) {
 		this.rootDir = config.rootDir;
 		this.playwrightVersion = config.version;
 
 		const projects = Array.isArray(config.projects) ? config.projects : [];
 		for (const project of projects) {
-			const resolvedConfig = resolvePlaywrightOpentelemetryConfig(
-				getProjectPlaywrightOpentelemetryConfig(project),
-				{ requireDestination: true },
-			);
+			const resolvedConfig = this.resolveProjectConfig(project);
+			this.projectConfigs.push(resolvedConfig);
+			this.configsByProject.set(project, resolvedConfig);
 			this.debug ||= resolvedConfig.debug;
 		}
+
+		this.runTracker = new RunTracker(
+			config,
+			suite,
+			this.projectConfigs.find(
+				(projectConfig) => projectConfig.parentTraceContext,
+			)?.parentTraceContext,
+		);
+		this.workerTracker = new WorkerTracker(
+			this.runTracker.link(),
+			config.rootDir,
+		);
 	}
 
 	onTestBegin(_test: TestCase, _result: TestResult) {}
@@ -108,7 +178,12 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 	onStepEnd(_test: TestCase, _result: TestResult, _step: TestStep) {}
 
 	onTestEnd(test: TestCase, result: TestResult): void {
-		const config = getTestConfig(test);
+		this.runTracker?.recordTestResult(test, result);
+		const output = this.testOutput.take(result);
+
+		const config = this.getTestConfig(test);
+		this.recordMetrics(test, result, config);
+		this.workerTracker?.recordTestResult(test, result, config);
 		const traceAttachment = result.attachments.find(
 			(attachment) =>
 				attachment.name === "trace" &&
@@ -133,10 +208,25 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 			result,
 			testId,
 		);
+		if (
+			!shouldSampleTest(config.sampling, {
+				traceId,
+				projectName: test.titlePath()[1] ?? "",
+				tags: test.tags,
+				expectedStatus: test.expectedStatus,
+				retry: result.retry,
+				status: result.status,
+			})
+		) {
+			return;
+		}
 		const fixtureSpans = config.storeTraceZip
 			? readFixtureSpansAttachment(result, testId)
 			: [];
 
+		// Read annotations before adding our own trace ID annotation.
+		const annotationAttributes = getAnnotationAttributes(test, result);
+
 		result.annotations.push({
 			type: "playwrightOpentelemetryTraceId",
 			description: traceId,
@@ -160,6 +250,15 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 			result.status === "passed" ? "pass" : "fail";
 		attributes["playwright.test.status"] = result.status;
 		attributes["playwright.test.describes"] = describes;
+		attributes[ATTR_TEST_RETRY] = result.retry;
+		if (test.tags.length > 0) {
+			attributes[ATTR_TEST_TAGS] = test.tags;
+		}
+		Object.assign(attributes, annotationAttributes);
+		Object.assign(attributes, this.runTracker?.testAttributes());
+		if (output.droppedEvents > 0) {
+			attributes[ATTR_TEST_LOG_DROPPED_EVENTS] = output.droppedEvents;
+		}
 
 		if (test.location) {
 			const { file, line } = test.location;
@@ -215,16 +314,57 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 			endTime: maxEndTime,
 			attributes,
 		};
+		const events = [
+			...output.events,
+			...testErrorEvents(result, maxEndTime, this.rootDir),
+		];
+		if (events.length > 0) {
+			span.events = events;
+		}
+		const links: SpanLink[] = [];
+		if (this.runTracker) {
+			links.push(this.runTracker.link());
+		}
+		// Link back to the most recent exported attempt so flaky-test
+		// investigations can jump between retries.
+		const previousAttempt = this.exportedAttempts.get(testId);
+		if (previousAttempt && previousAttempt.retry < result.retry) {
+			links.push({
+				traceId: previousAttempt.traceId,
+				spanId: previousAttempt.spanId,
+				attributes: { [ATTR_TEST_RETRY]: previousAttempt.retry },
+			});
+		}
+		if (links.length > 0) {
+			span.links = links;
+		}
+		this.exportedAttempts.set(testId, {
+			traceId,
+			spanId: testSpanId,
+			retry: result.retry,
+		});
 		if (result.status !== test.expectedStatus) {
 			span.status = { code: 2 };
 		}
 
-		// Build the final spans array with test span first
-		const testSpans: Span[] = [span, ...stepSpans];
+		// Build the final spans array with test span first. Fixture spans were
+		// already processed by the fixture before they were attached.
+		const testSpans = applySpanProcessors(
+			[span, ...stepSpans],
+			config.spanProcessors,
+		);
 
 		// Fixture/browser spans are sent directly by the fixture to avoid serializing
 		// them through the reporter except when local ZIP storage needs them.
-		this.spanBatches.push({ spans: testSpans, config });
+		this.exportSpans(testSpans, config);
+		this.workerTracker?.linkTest(result, { traceId, spanId: testSpanId });
+		// Test output is also exported as log records when a logs endpoint is set.
+		this.exportLogs(
+			spanEventsToLogRecords(
+				testSpans.filter((testSpan) => testSpan.spanId === testSpanId),
+			),
+			config,
+		);
 
 		if (config.storeTraceZip || hasTraceApiDestination(config)) {
 			const prepared = this.prepareTraceArtifact({
@@ -245,7 +385,25 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 		}
 	}
 
-	async onEnd(_result: FullResult) {
+	async onEnd(result: FullResult) {
+		this.exportRunSpan(result);
+		this.exportWorkerSpans();
+
+		const settled = await Promise.allSettled([
+			this.writeTraceArtifacts(),
+			this.exportMetrics(),
+			...[...this.exporters.values(), ...this.logExporters.values()].map(
+				(exporter) => exporter.shutdown(),
+			),
+		]);
+		for (const outcome of settled) {
+			if (outcome.status === "rejected") {
+				throw outcome.reason;
+			}
+		}
+	}
+
+	private async writeTraceArtifacts(): Promise<void> {
 		for (const artifact of this.pendingTraceArtifacts) {
 			const prepared = await artifact.prepared;
 			if ("error" in prepared) {
@@ -260,43 +418,171 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 				);
 			}
 		}
+	}
+
+	private exportRunSpan(result: FullResult): void {
+		if (!this.runTracker) {
+			return;
+		}
 
-		const destinations = new Map<
+		// Projects often share destinations; exporting per config would send the
+		// run span to a shared destination once per project.
+		const runDestinations = new Map<
 			string,
-			{ spans: Span[]; options: SendSpansOptions }
+			{
+				options: SendSpansOptions;
+				config: ResolvedPlaywrightOpentelemetryConfig;
+			}
 		>();
+		for (const config of this.projectConfigs) {
+			for (const options of getDestinationOptions(
+				config,
+				this.playwrightVersion || "unknown",
+			)) {
+				runDestinations.set(JSON.stringify(options), { options, config });
+			}
+		}
 
-		for (const batch of this.spanBatches) {
-			for (const destination of batch.config.otlpDestinations) {
-				if (!destination.url) {
-					continue;
-				}
+		const runSpan = this.runTracker.finish(result);
+		for (const [key, { options, config }] of runDestinations) {
+			this.exporterFor(key, options, config).add(
+				applySpanProcessors([runSpan], config.spanProcessors),
+			);
+		}
+	}
+
+	private exportWorkerSpans(): void {
+		for (const { config, spans } of this.workerTracker?.finish() ?? []) {
+			this.exportSpans(
+				applySpanProcessors(spans, config.spanProcessors),
+				config,
+			);
+		}
+	}
+
+	private getTestConfig(test: TestCase): ResolvedPlaywrightOpentelemetryConfig {
+		const project = test.parent.project();
+		let config = this.configsByProject.get(project);
+		if (!config) {
+			config = this.resolveProjectConfig(project);
+			this.configsByProject.set(project, config);
+		}
+		return config;
+	}
 
-				addDestinationSpans(destinations, batch.spans, {
-					tracesEndpoint: destination.url,
-					headers: destination.headers,
-					playwrightVersion: this.playwrightVersion || "unknown",
-					debug: batch.config.debug,
-				});
+	/**
+	 * Blob reports keep no `use` options, so merge-reports resolves every
+	 * project from the reporter options. When replaying, each shard already
+	 * exported its tests: only local trace ZIPs are written again.
+	 */
+	private resolveProjectConfig(
+		project: unknown,
+	): ResolvedPlaywrightOpentelemetryConfig {
+		const config = resolvePlaywrightOpentelemetryConfig(
+			getProjectPlaywrightOpentelemetryConfig(project) ?? this.reporterConfig,
+			{ requireDestination: !this.replayingMergedReports },
+		);
+		return this.replayingMergedReports
+			? withoutExportDestinations(config)
+			: config;
+	}
+
+	private exportSpans(
+		spans: Span[],
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): void {
+		for (const options of getDestinationOptions(
+			config,
+			this.playwrightVersion || "unknown",
+		)) {
+			this.exporterFor(JSON.stringify(options), options, config).add(spans);
+		}
+	}
+
+	private exportLogs(
+		records: LogRecord[],
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): void {
+		if (records.length === 0) {
+			return;
+		}
+
+		for (const options of getLogsDestinationOptions(
+			config,
+			this.playwrightVersion || "unknown",
+		)) {
+			this.logExporterFor(options, config).add(records);
+		}
+	}
+
+	private recordMetrics(
+		test: TestCase,
+		result: TestResult,
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): void {
+		const options = getMetricsDestinationOptions(
+			config,
+			this.playwrightVersion || "unknown",
+		);
+		if (options.length === 0) {
+			return;
+		}
+
+		const attributes = getTestMetricAttributes(test, this.rootDir);
+		for (const destination of options) {
+			const key = JSON.stringify(destination);
+			let metrics = this.metrics.get(key);
+			if (!metrics) {
+				metrics = {
+					options: destination,
+					recorder: new TestMetricsRecorder(),
+				};
+				this.metrics.set(key, metrics);
 			}
+			metrics.recorder.recordTestResult(test, result, attributes);
+		}
+	}
 
-			for (const destination of batch.config.playwrightTraceApiDestinations) {
-				if (!destination.url) {
-					continue;
+	private async exportMetrics(): Promise<void> {
+		const endTime = new Date();
+		await Promise.all(
+			Array.from(this.metrics.values()).map(async ({ options, recorder }) => {
+				const outcome = await sendMetrics(
+					recorder.collect(),
+					{ startTime: recorder.startTime, endTime },
+					options,
+				);
+				if (outcome === "sent") {
+					await replaySpooledMetrics(options);
 				}
+			}),
+		);
+	}
 
-				addDestinationSpans(destinations, batch.spans, {
-					tracesEndpoint: `${destination.url}/v1/traces`,
-					headers: destination.headers,
-					playwrightVersion: this.playwrightVersion || "unknown",
-					debug: batch.config.debug,
-				});
-			}
+	private exporterFor(
+		key: string,
+		options: SendSpansOptions,
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): BatchSpanExporter {
+		let exporter = this.exporters.get(key);
+		if (!exporter) {
+			exporter = new BatchSpanExporter(options, config.batchExport);
+			this.exporters.set(key, exporter);
 		}
+		return exporter;
+	}
 
-		for (const destination of destinations.values()) {
-			await sendSpans(destination.spans, destination.options);
+	private logExporterFor(
+		options: SendLogsOptions,
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): BatchLogExporter {
+		const key = JSON.stringify(options);
+		let exporter = this.logExporters.get(key);
+		if (!exporter) {
+			exporter = new BatchLogExporter(options, config.batchExport);
+			this.logExporters.set(key, exporter);
 		}
+		return exporter;
 	}
 
 	private async prepareTraceArtifact(
@@ -315,6 +601,7 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 					spans: options.spans,
 					fixtureSpans: options.fixtureSpans,
 					playwrightVersion: options.playwrightVersion,
+					resourceAttributes: options.config.resourceAttributes,
 					screenshots,
 				})
 			: undefined;
@@ -484,15 +771,35 @@ export class PlaywrightOpentelemetryReporter implements Reporter {
 		}
 	}
 
-	onStdOut(chunk: string | Buffer, _test: TestCase, _result: TestResult): void {
+	onStdOut(chunk: string | Buffer, test?: TestCase, result?: TestResult): void {
 		if (this.debug) {
 			console.log(chunk.toString().slice(0, -1));
 		}
+		this.recordTestOutput("stdout", chunk, test, result);
 	}
-	onStdErr(chunk: string | Buffer, _test: TestCase, _result: TestResult): void {
+	onStdErr(chunk: string | Buffer, test?: TestCase, result?: TestResult): void {
 		if (this.debug) {
 			console.log(chunk.toString().slice(0, -1));
 		}
+		this.recordTestOutput("stderr", chunk, test, result);
+	}
+
+	private recordTestOutput(
+		stream: TestOutputStream,
+		chunk: string | Buffer,
+		test: TestCase | undefined,
+		result: TestResult | undefined,
+	): void {
+		// Output from global setup or workers between tests has no test span.
+		if (!test || !result) {
+			return;
+		}
+		this.testOutput.record(
+			result,
+			stream,
+			chunk,
+			() => this.getTestConfig(test).testOutput,
+		);
 	}
 
 	printsToStdio(): boolean {
@@ -534,11 +841,20 @@ function getProjectPlaywrightOpentelemetryConfig(
 		?.use?.playwrightOpentelemetry;
 }
 
-function getTestConfig(test: TestCase): ResolvedPlaywrightOpentelemetryConfig {
-	return resolvePlaywrightOpentelemetryConfig(
-		getProjectPlaywrightOpentelemetryConfig(test.parent.project()),
-		{ requireDestination: true },
-	);
+/**
+ * Without destinations nothing is exported, while local trace ZIPs are
+ * still written.
+ */
+function withoutExportDestinations(
+	config: ResolvedPlaywrightOpentelemetryConfig,
+): ResolvedPlaywrightOpentelemetryConfig {
+	return {
+		...config,
+		otlpDestinations: [],
+		otlpLogsDestinations: [],
+		otlpMetricsDestinations: [],
+		playwrightTraceApiDestinations: [],
+	};
 }
 
 function getTestOutputDir(test: TestCase): string {
@@ -551,19 +867,117 @@ function getTestOutputDir(test: TestCase): string {
 	return outputDir;
 }
 
-function addDestinationSpans(
-	destinations: Map<string, { spans: Span[]; options: SendSpansOptions }>,
-	spans: Span[],
-	options: SendSpansOptions,
-): void {
-	const key = JSON.stringify(options);
-	const destination = destinations.get(key);
-	if (destination) {
-		destination.spans.push(...spans);
-		return;
+/**
+ * Map test annotations to `playwright.test.annotation.<type>` attributes.
+ * Values are always string arrays because a type can repeat (several
+ * `issue` links); annotations without a description contribute "".
+ */
+function getAnnotationAttributes(
+	test: TestCase,
+	result: TestResult,
+): Record<string, string[]> {
+	const attributes: Record<string, string[]> = {};
+	const seen = new Set<string>();
+
+	// Static annotations are on the test; runtime ones such as test.slow() or
+	// testInfo.annotations.push() are on the result and can repeat them.
+	for (const annotation of [...test.annotations, ...result.annotations]) {
+		const key = `${annotation.type}\0${annotation.description ?? ""}`;
+		if (seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+
+		const attributeName = `${ATTR_TEST_ANNOTATION_PREFIX}${annotation.type}`;
+		attributes[attributeName] ??= [];
+		attributes[attributeName].push(annotation.description ?? "");
+	}
+	return attributes;
+}
+
+function getDestinationOptions(
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	playwrightVersion: string,
+): SendSpansOptions[] {
+	const options: SendSpansOptions[] = [];
+
+	for (const destination of config.otlpDestinations) {
+		if (!destination.url) {
+			continue;
+		}
+
+		options.push({
+			tracesEndpoint: destination.url,
+			headers: destination.headers,
+			protocol: destination.protocol,
+			compression: destination.compression,
+			playwrightVersion,
+			debug: config.debug,
+			retry: config.exportRetry,
+			spoolDir: config.spoolDir,
+			resourceAttributes: config.resourceAttributes,
+		});
 	}
 
-	destinations.set(key, { spans: [...spans], options });
+	for (const destination of config.playwrightTraceApiDestinations) {
+		if (!destination.url) {
+			continue;
+		}
+
+		options.push({
+			tracesEndpoint: `${destination.url}/v1/traces`,
+			headers: destination.headers,
+			compression: destination.compression,
+			playwrightVersion,
+			debug: config.debug,
+			retry: config.exportRetry,
+			spoolDir: config.spoolDir,
+			resourceAttributes: config.resourceAttributes,
+		});
+	}
+
+	return options;
+}
+
+function getLogsDestinationOptions(
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	playwrightVersion: string,
+): SendLogsOptions[] {
+	return config.otlpLogsDestinations
+		.filter((destination) => destination.url)
+		.map((destination) => ({
+			logsEndpoint: destination.url,
+			...getOtlpExportOptions(destination, config, playwrightVersion),
+		}));
+}
+
+function getMetricsDestinationOptions(
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	playwrightVersion: string,
+): SendMetricsOptions[] {
+	return config.otlpMetricsDestinations
+		.filter((destination) => destination.url)
+		.map((destination) => ({
+			metricsEndpoint: destination.url,
+			...getOtlpExportOptions(destination, config, playwrightVersion),
+		}));
+}
+
+function getOtlpExportOptions(
+	destination: ResolvedPlaywrightOpentelemetryDestination,
+	config: ResolvedPlaywrightOpentelemetryConfig,
+	playwrightVersion: string,
+): OtlpExportOptions {
+	return {
+		headers: destination.headers,
+		protocol: destination.protocol,
+		compression: destination.compression,
+		playwrightVersion,
+		debug: config.debug,
+		retry: config.exportRetry,
+		spoolDir: config.spoolDir,
+		resourceAttributes: config.resourceAttributes,
+	};
 }
 
 function hasTraceApiDestination(
@@ -695,10 +1109,6 @@ function isSpanStatus(value: unknown): value is NonNullable<Span["status"]> {
 	return isRecord(value) && typeof value.code === "number";
 }
 
-const ANSI_ESCAPE_PATTERN =
-	/[\u001b\u009b][[\]()#;?]*(?:(?:(?:[a-zA-Z\d]*(?:;[a-zA-Z\d]*)*)?\u0007)|(?:(?:\d{1,4}(?:;\d{0,4})*)?[\dA-PR-TZcf-nq-uy=><~]))/g;
-const ORPHANED_ANSI_SGR_PATTERN = /\[(?:\d{1,3};)*\d{1,3}m/g;
-
 function errorStatus(message: string | undefined): NonNullable<Span["status"]> {
 	if (!message) {
 		return { code: 2 };
@@ -708,31 +1118,6 @@ function errorStatus(message: string | undefined): NonNullable<Span["status"]> {
 	return cleanedMessage ? { code: 2, message: cleanedMessage } : { code: 2 };
 }
 
-function cleanErrorMessage(message: string): string {
-	return message
-		.replace(ANSI_ESCAPE_PATTERN, "")
-		.replace(ORPHANED_ANSI_SGR_PATTERN, "")
-		.replace(/\r\n?/g, "\n")
-		.trim();
-}
-
-function isInternalFixtureStep(step: TestStep): boolean {
-	if (step.category !== "fixture" || !step.location?.file) {
-		return false;
-	}
-
-	const file = step.location.file.replace(/\\/g, "/");
-	return INTERNAL_FIXTURE_FILE_PATTERNS.some((pattern) => pattern.test(file));
-}
-
-const INTERNAL_FIXTURE_FILE_PATTERNS = [
-	/(?:^|\/)dist\/playwright-opentelemetry-fixture-[^/]+\.(?:mjs|cjs|js)$/,
-	/(?:^|\/)playwright-opentelemetry\/dist\/fixture\.(?:mjs|cjs|js)$/,
-	/(?:^|\/)playwright-opentelemetry\/dist\/playwright-opentelemetry-fixture-[^/]+\.(?:mjs|cjs|js)$/,
-	/(?:^|\/)playwright-opentelemetry\/dist\/fixture\/index\.(?:mjs|cjs|js)$/,
-	/(?:^|\/)playwright-opentelemetry\/(?:reporter\/)?src\/fixture\/playwright-opentelemetry-fixture\.ts$/,
-] as const;
-
 function isSpanAttributes(value: unknown): value is Span["attributes"] {
 	if (!isRecord(value)) {
 		return false;
@@ -0,0 +1,205 @@
+import { createHash } from "node:crypto";
+import type {
+	FullConfig,
+	FullResult,
+	Suite,
+	TestCase,
+	TestResult,
+} from "@playwright/test/reporter";
+import {
+	generateSpanId,
+	generateTraceId,
+	type Span,
+	type SpanAttributeValue,
+	type SpanLink,
+} from "../shared/otel";
+import type { ParentTraceContext } from "../shared/traceparent";
+import {
+	ATTR_RUN_ID,
+	ATTR_RUN_PROJECTS,
+	ATTR_RUN_SHARD_CURRENT,
+	ATTR_RUN_SHARD_TOTAL,
+	ATTR_RUN_STATUS,
+	ATTR_RUN_TESTS_FAILED,
+	ATTR_RUN_TESTS_FLAKY,
+	ATTR_RUN_TESTS_PASSED,
+	ATTR_RUN_TESTS_SKIPPED,
+	ATTR_RUN_TESTS_TOTAL,
+	ATTR_RUN_WORKERS,
+	RUN_SPAN_NAME,
+} from "./reporter-attributes";
+
+const SPAN_STATUS_CODE_ERROR = 2;
+export const RUN_ID_ENV = "PLAYWRIGHT_OPENTELEMETRY_RUN_ID";
+
+export type TestOutcome = "passed" | "failed" | "flaky" | "skipped";
+
+export interface TestAttempts {
+	expectedStatus: string;
+	lastStatus: string;
+	hadUnexpectedAttempt: boolean;
+}
+
+/**
+ * Tracks the `playwright.run` root span that ties every test trace of a
+ * Playwright run together. Test spans link to it with {@link RunTracker.link}.
+ *
+ * Shards of one CI run share a run ID through `PLAYWRIGHT_OPENTELEMETRY_RUN_ID`.
+ * The run trace ID is derived from it, so the run span of every shard lands
+ * in the same trace. An incoming `TRACEPARENT` takes precedence: the run span
+ * then becomes a child of the CI job span.
+ */
+export class RunTracker {
+	readonly traceId: string;
+	readonly spanId = generateSpanId();
+	private readonly startTime = new Date();
+	private readonly parent: ParentTraceContext | undefined;
+	private readonly attributes: Record<string, SpanAttributeValue>;
+	private readonly sharedAttributes: Record<string, SpanAttributeValue>;
+	private readonly totalTests: number;
+	private readonly tests = new Map<string, TestAttempts>();
+
+	constructor(
+		config: FullConfig,
+		suite: Suite,
+		parent?: ParentTraceContext,
+		runId: string | undefined = process.env[RUN_ID_ENV] || undefined,
+	) {
+		this.parent = parent;
+		this.traceId =
+			parent?.traceId ?? (runId ? runTraceId(runId) : generateTraceId());
+		this.sharedAttributes = sharedRunAttributes(config, runId);
+		this.attributes = { ...runAttributes(config), ...this.sharedAttributes };
+		this.totalTests = suite.allTests().length;
+	}
+
+	link(): SpanLink {
+		return { traceId: this.traceId, spanId: this.spanId };
+	}
+
+	/** Run ID and shard attributes, also set on every test span. */
+	testAttributes(): Record<string, SpanAttributeValue> {
+		return { ...this.sharedAttributes };
+	}
+
+	recordTestResult(test: TestCase, result: TestResult): void {
+		this.tests.set(
+			test.id,
+			recordTestAttempt(this.tests.get(test.id), test, result),
+		);
+	}
+
+	finish(result: FullResult, endTime = new Date()): Span {
+		const counts: Record<TestOutcome, number> = {
+			passed: 0,
+			failed: 0,
+			flaky: 0,
+			skipped: 0,
+		};
+		for (const attempts of this.tests.values()) {
+			counts[testOutcome(attempts)]++;
+		}
+
+		const startTime = result.startTime ?? this.startTime;
+		const span: Span = {
+			traceId: this.traceId,
+			spanId: this.spanId,
+			name: RUN_SPAN_NAME,
+			startTime,
+			endTime:
+				result.duration !== undefined
+					? new Date(startTime.getTime() + result.duration)
+					: endTime,
+			attributes: {
+				...this.attributes,
+				[ATTR_RUN_TESTS_TOTAL]: this.totalTests,
+				[ATTR_RUN_TESTS_PASSED]: counts.passed,
+				[ATTR_RUN_TESTS_FAILED]: counts.failed,
+				[ATTR_RUN_TESTS_FLAKY]: counts.flaky,
+				[ATTR_RUN_TESTS_SKIPPED]: counts.skipped,
+			},
+		};
+
+		if (this.parent) {
+			span.parentSpanId = this.parent.spanId;
+			if (this.parent.traceState) {
+				span.traceState = this.parent.traceState;
+			}
+		}
+
+		if (result.status) {
+			span.attributes[ATTR_RUN_STATUS] = result.status;
+			if (result.status !== "passed") {
+				span.status = { code: SPAN_STATUS_CODE_ERROR };
+			}
+		}
+
+		return span;
+	}
+}
+
+function runAttributes(config: FullConfig): Record<string, SpanAttributeValue> {
+	const projects = Array.isArray(config.projects) ? config.projects : [];
+	const attributes: Record<string, SpanAttributeValue> = {
+		[ATTR_RUN_PROJECTS]: projects.map((project) => project.name),
+	};
+
+	if (typeof config.workers === "number") {
+		attributes[ATTR_RUN_WORKERS] = config.workers;
+	}
+
+	return attributes;
+}
+
+function sharedRunAttributes(
+	config: FullConfig,
+	runId: string | undefined,
+): Record<string, SpanAttributeValue> {
+	const attributes: Record<string, SpanAttributeValue> = {};
+
+	if (runId) {
+		attributes[ATTR_RUN_ID] = runId;
+	}
+
+	if (config.shard) {
+		attributes[ATTR_RUN_SHARD_CURRENT] = config.shard.current;
+		attributes[ATTR_RUN_SHARD_TOTAL] = config.shard.total;
+	}
+
+	return attributes;
+}
+
+/** A trace ID that is the same for every shard reporting the same run ID. */
+export function runTraceId(runId: string): string {
+	return createHash("sha256").update(runId).digest("hex").slice(0, 32);
+}
+
+/** Fold a finished attempt into the attempts seen so far for a test. */
+export function recordTestAttempt(
+	previous: TestAttempts | undefined,
+	test: TestCase,
+	result: TestResult,
+): TestAttempts {
+	const unexpected =
+		result.status !== "skipped" && result.status !== test.expectedStatus;
+
+	return {
+		expectedStatus: test.expectedStatus,
+		lastStatus: result.status,
+		hadUnexpectedAttempt:
+			(previous?.hadUnexpectedAttempt ?? false) || unexpected,
+	};
+}
+
+/** Final outcome of a test given all of its attempts, as in the HTML report. */
+export function testOutcome(attempts: TestAttempts): TestOutcome {
+	if (attempts.lastStatus === "skipped") {
+		return "skipped";
+	}
+
+	if (attempts.lastStatus !== attempts.expectedStatus) {
+		return "failed";
+	}
+
+	return attempts.hadUnexpectedAttempt ? "flaky" : "passed";
+}
@@ -1,5 +1,10 @@
+export type { SendSpansOptions } from "../shared/otel";
 export {
 	buildOtlpRequest,
+	replaySpooledSpans,
 	sendSpans,
 } from "../shared/otel";
-export type { SendSpansOptions } from "../shared/otel";
+export type { LogRecord, SendLogsOptions } from "../shared/otlp-logs";
+export { replaySpooledLogs, sendLogs } from "../shared/otlp-logs";
+export type { SendMetricsOptions } from "../shared/otlp-metrics";
+export { replaySpooledMetrics, sendMetrics } from "../shared/otlp-metrics";
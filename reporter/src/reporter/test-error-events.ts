@@ -0,0 +1,104 @@
+import path from "node:path";
+import type {
+	TestError,
+	TestResult,
+	TestStep,
+} from "@playwright/test/reporter";
+import type { SpanEvent } from "../shared/otel";
+import {
+	ATTR_CODE_COLUMN_NUMBER,
+	ATTR_CODE_FILE_PATH,
+	ATTR_CODE_LINE_NUMBER,
+	ATTR_EXCEPTION_MESSAGE,
+	ATTR_EXCEPTION_STACKTRACE,
+	ATTR_EXCEPTION_TYPE,
+	EXCEPTION_EVENT_NAME,
+} from "./otel-attributes";
+import { ATTR_ERROR_SNIPPET } from "./reporter-attributes";
+
+const ANSI_ESCAPE_PATTERN =
+	/[\u001b\u009b][[\]()#;?]*(?:(?:(?:[a-zA-Z\d]*(?:;[a-zA-Z\d]*)*)?\u0007)|(?:(?:\d{1,4}(?:;\d{0,4})*)?[\dA-PR-TZcf-nq-uy=><~]))/g;
+const ORPHANED_ANSI_SGR_PATTERN = /\[(?:\d{1,3};)*\d{1,3}m/g;
+// Matches the `TimeoutError: ` prefix of a message or the first stack line.
+const ERROR_TYPE_PATTERN = /^((?:[A-Za-z_$][\w$]*)?(?:Error|Exception)): /;
+
+export function cleanErrorMessage(message: string): string {
+	return stripAnsi(message).trim();
+}
+
+function stripAnsi(text: string): string {
+	return text
+		.replace(ANSI_ESCAPE_PATTERN, "")
+		.replace(ORPHANED_ANSI_SGR_PATTERN, "")
+		.replace(/\r\n?/g, "\n");
+}
+
+/**
+ * Build an `exception` event for every entry of `TestResult.errors`. Soft
+ * assertion failures are separate entries, so each gets its own event.
+ * Errors carry no timestamp: an event is stamped with the end of the step
+ * that failed with the same message, or with `testEndTime`.
+ */
+export function testErrorEvents(
+	result: TestResult,
+	testEndTime: Date,
+	rootDir: string | undefined,
+): SpanEvent[] {
+	const failedSteps = flattenSteps(result.steps ?? []).filter(
+		(step) => step.error?.message,
+	);
+
+	return (result.errors ?? []).map((error) => {
+		const step = failedSteps.find(
+			(candidate) => candidate.error?.message === error.message,
+		);
+		return {
+			name: EXCEPTION_EVENT_NAME,
+			time: step
+				? new Date(step.startTime.getTime() + step.duration)
+				: testEndTime,
+			attributes: exceptionAttributes(error, rootDir),
+		};
+	});
+}
+
+function exceptionAttributes(
+	error: TestError,
+	rootDir: string | undefined,
+): NonNullable<SpanEvent["attributes"]> {
+	const attributes: NonNullable<SpanEvent["attributes"]> = {};
+	const stack = error.stack ? cleanErrorMessage(error.stack) : undefined;
+	let message = cleanErrorMessage(error.message ?? error.value ?? "");
+
+	const type =
+		ERROR_TYPE_PATTERN.exec(message)?.[1] ??
+		(stack ? ERROR_TYPE_PATTERN.exec(stack)?.[1] : undefined);
+	if (type) {
+		attributes[ATTR_EXCEPTION_TYPE] = type;
+		if (message.startsWith(`${type}: `)) {
+			message = message.slice(type.length + 2);
+		}
+	}
+	if (message) {
+		attributes[ATTR_EXCEPTION_MESSAGE] = message;
+	}
+	if (stack) {
+		attributes[ATTR_EXCEPTION_STACKTRACE] = stack;
+	}
+	if (error.snippet) {
+		// Keep the indentation that lines the snippet up with its caret.
+		attributes[ATTR_ERROR_SNIPPET] = stripAnsi(error.snippet).trimEnd();
+	}
+	if (error.location) {
+		attributes[ATTR_CODE_FILE_PATH] = rootDir
+			? path.relative(rootDir, error.location.file)
+			: error.location.file;
+		attributes[ATTR_CODE_LINE_NUMBER] = error.location.line;
+		attributes[ATTR_CODE_COLUMN_NUMBER] = error.location.column;
+	}
+	return attributes;
+}
+
+function flattenSteps(steps: TestStep[]): TestStep[] {
+	return steps.flatMap((step) => [step, ...flattenSteps(step.steps ?? [])]);
+}
@@ -0,0 +1,183 @@
+import path from "node:path";
+import type { TestCase, TestResult, TestStep } from "@playwright/test/reporter";
+import type {
+	HistogramDataPoint,
+	Metric,
+	MetricAttributes,
+} from "../shared/otlp-metrics";
+import { ATTR_CODE_FILE_PATH } from "./otel-attributes";
+import {
+	ATTR_PROJECT_NAME,
+	ATTR_TEST_OUTCOME,
+	ATTR_TEST_STATUS,
+	ATTR_TEST_STEP_CATEGORY,
+	ATTR_TEST_TAGS,
+	TEST_DURATION_METRIC_NAME,
+	TEST_OUTCOMES_METRIC_NAME,
+	TEST_STEP_DURATION_METRIC_NAME,
+} from "./reporter-attributes";
+import {
+	recordTestAttempt,
+	type TestAttempts,
+	testOutcome,
+} from "./run-tracker";
+
+/** Bucket boundaries in seconds, from fast `expect` steps to slow e2e tests. */
+export const DURATION_BOUNDARIES_SECONDS = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+/**
+ * Aggregates test results into the cumulative metrics exported once at the
+ * end of the run: test and step duration histograms plus a test outcome
+ * counter, each keyed by project, file and tags.
+ */
+export class TestMetricsRecorder {
+	readonly startTime: Date;
+	private readonly testDurations = new HistogramAggregation(
+		DURATION_BOUNDARIES_SECONDS,
+	);
+	private readonly stepDurations = new HistogramAggregation(
+		DURATION_BOUNDARIES_SECONDS,
+	);
+	private readonly tests = new Map<
+		string,
+		{ attributes: MetricAttributes; attempts: TestAttempts }
+	>();
+
+	constructor(startTime = new Date()) {
+		this.startTime = startTime;
+	}
+
+	recordTestResult(
+		test: TestCase,
+		result: TestResult,
+		attributes: MetricAttributes,
+	): void {
+		this.testDurations.record(result.duration / 1000, {
+			...attributes,
+			[ATTR_TEST_STATUS]: result.status,
+		});
+		this.recordSteps(result.steps ?? [], attributes);
+
+		this.tests.set(test.id, {
+			attributes,
+			attempts: recordTestAttempt(
+				this.tests.get(test.id)?.attempts,
+				test,
+				result,
+			),
+		});
+	}
+
+	collect(): Metric[] {
+		const outcomes = new Map<
+			string,
+			{ attributes: MetricAttributes; value: number }
+		>();
+		for (const { attributes, attempts } of this.tests.values()) {
+			const outcome = testOutcome(attempts);
+			const pointAttributes = { ...attributes, [ATTR_TEST_OUTCOME]: outcome };
+			const key = JSON.stringify(pointAttributes);
+			const point = outcomes.get(key);
+			if (point) {
+				point.value++;
+			} else {
+				outcomes.set(key, { attributes: pointAttributes, value: 1 });
+			}
+		}
+
+		return [
+			{
+				name: TEST_DURATION_METRIC_NAME,
+				description: "Duration of each test attempt.",
+				unit: "s",
+				kind: "histogram",
+				boundaries: DURATION_BOUNDARIES_SECONDS,
+				dataPoints: this.testDurations.dataPoints(),
+			},
+			{
+				name: TEST_STEP_DURATION_METRIC_NAME,
+				description: "Duration of test steps, hooks and fixtures.",
+				unit: "s",
+				kind: "histogram",
+				boundaries: DURATION_BOUNDARIES_SECONDS,
+				dataPoints: this.stepDurations.dataPoints(),
+			},
+			{
+				name: TEST_OUTCOMES_METRIC_NAME,
+				description:
+					"Tests by final outcome: passed, failed, flaky or skipped.",
+				unit: "{test}",
+				kind: "counter",
+				dataPoints: Array.from(outcomes.values()),
+			},
+		];
+	}
+
+	private recordSteps(steps: TestStep[], attributes: MetricAttributes): void {
+		for (const step of steps) {
+			if (step.duration >= 0) {
+				this.stepDurations.record(step.duration / 1000, {
+					...attributes,
+					[ATTR_TEST_STEP_CATEGORY]: step.category,
+				});
+			}
+			this.recordSteps(step.steps ?? [], attributes);
+		}
+	}
+}
+
+/** Project, file and tag attributes that key every test metric. */
+export function getTestMetricAttributes(
+	test: TestCase,
+	rootDir: string | undefined,
+): MetricAttributes {
+	// titlePath format: ['', 'project', 'filename', ...describes, 'testname']
+	const attributes: MetricAttributes = {
+		[ATTR_PROJECT_NAME]: test.titlePath()[1] ?? "",
+	};
+	if (test.location) {
+		attributes[ATTR_CODE_FILE_PATH] = rootDir
+			? path.relative(rootDir, test.location.file)
+			: test.location.file;
+	}
+	if (test.tags.length > 0) {
+		attributes[ATTR_TEST_TAGS] = [...test.tags].sort();
+	}
+	return attributes;
+}
+
+class HistogramAggregation {
+	private readonly points = new Map<string, HistogramDataPoint>();
+
+	constructor(private readonly boundaries: number[]) {}
+
+	record(value: number, attributes: MetricAttributes): void {
+		const key = JSON.stringify(attributes);
+		let point = this.points.get(key);
+		if (!point) {
+			point = {
+				attributes,
+				count: 0,
+				sum: 0,
+				min: value,
+				max: value,
+				bucketCounts: new Array(this.boundaries.length + 1).fill(0),
+			};
+			this.points.set(key, point);
+		}
+
+		point.count++;
+		point.sum += value;
+		point.min = Math.min(point.min, value);
+		point.max = Math.max(point.max, value);
+		// Buckets are upper-inclusive: (boundaries[i - 1], boundaries[i]].
+		const bucket = this.boundaries.findIndex((boundary) => value <= boundary);
+		point.bucketCounts[bucket === -1 ? this.boundaries.length : bucket]++;
+	}
+
+	dataPoints(): HistogramDataPoint[] {
+		return Array.from(this.points.values());
+	}
+}
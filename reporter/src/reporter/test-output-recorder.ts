@@ -0,0 +1,74 @@
+import type { TestResult } from "@playwright/test/reporter";
+import type { ResolvedPlaywrightOpentelemetryTestOutputConfig } from "../shared/config";
+import type { SpanEvent } from "../shared/otel";
+import {
+	ATTR_LOG_IOSTREAM,
+	ATTR_LOG_TRUNCATED,
+	LOG_EVENT_NAME,
+} from "./reporter-attributes";
+
+export type TestOutputStream = "stdout" | "stderr";
+
+type RecordedTestOutput = {
+	limits: ResolvedPlaywrightOpentelemetryTestOutputConfig;
+	events: SpanEvent[];
+	droppedEvents: number;
+};
+
+/**
+ * Collects stdout/stderr chunks per test attempt as `log` span events.
+ *
+ * Playwright only reports arrival order for output, so each event is stamped
+ * with the time the reporter received the chunk.
+ */
+export class TestOutputRecorder {
+	private outputs = new Map<TestResult, RecordedTestOutput>();
+
+	record(
+		result: TestResult,
+		stream: TestOutputStream,
+		chunk: string | Buffer,
+		getLimits: () => ResolvedPlaywrightOpentelemetryTestOutputConfig,
+		time = new Date(),
+	): void {
+		let output = this.outputs.get(result);
+		if (!output) {
+			const limits = getLimits();
+			if (!limits.capture) {
+				return;
+			}
+			output = { limits, events: [], droppedEvents: 0 };
+			this.outputs.set(result, output);
+		}
+
+		if (output.events.length >= output.limits.maxEventsPerTest) {
+			output.droppedEvents++;
+			return;
+		}
+
+		let message = chunk.toString();
+		if (message.endsWith("\n")) {
+			message = message.slice(0, -1);
+		}
+		const attributes: SpanEvent["attributes"] = {
+			message,
+			[ATTR_LOG_IOSTREAM]: stream,
+			"severity.text": stream === "stderr" ? "ERROR" : "INFO",
+		};
+		if (message.length > output.limits.maxEventLength) {
+			attributes.message = message.slice(0, output.limits.maxEventLength);
+			attributes[ATTR_LOG_TRUNCATED] = true;
+		}
+
+		output.events.push({ name: LOG_EVENT_NAME, time, attributes });
+	}
+
+	/** Remove and return the output recorded for a finished test attempt. */
+	take(result: TestResult): { events: SpanEvent[]; droppedEvents: number } {
+		const output = this.outputs.get(result);
+		this.outputs.delete(result);
+		return output
+			? { events: output.events, droppedEvents: output.droppedEvents }
+			: { events: [], droppedEvents: 0 };
+	}
+}
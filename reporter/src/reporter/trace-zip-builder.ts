@@ -9,7 +9,7 @@ import {
 	ZipReader,
 	ZipWriter,
 } from "@zip.js/zip.js";
-import type { Span } from "../shared/otel";
+import type { Span, SpanAttributeValue } from "../shared/otel";
 import { buildOtlpRequest } from "./sender";
 
 export interface ScreenshotManifestEntry {
@@ -145,6 +145,7 @@ export interface CreateTraceZipOptions {
 	spans: Span[];
 	fixtureSpans: Span[];
 	playwrightVersion: string;
+	resourceAttributes?: Record<string, SpanAttributeValue>;
 	/** Screenshots extracted from Playwright trace ZIP (filename -> resource) */
 	screenshots: Map<string, ScreenshotResource>;
 }
@@ -170,7 +171,11 @@ export async function createTraceZipBlob(
 	const { spans, fixtureSpans, playwrightVersion, screenshots } = options;
 
 	// Build OTLP request JSON
-	const otlpRequest = buildOtlpRequest(spans, playwrightVersion);
+	const otlpRequest = buildOtlpRequest(
+		spans,
+		playwrightVersion,
+		options.resourceAttributes,
+	);
 	const traceJson = JSON.stringify(otlpRequest, null, 2);
 
 	// Create zip file
@@ -187,6 +192,7 @@ export async function createTraceZipBlob(
 		const fixtureOtlpRequest = buildOtlpRequest(
 			fixtureSpans,
 			playwrightVersion,
+			options.resourceAttributes,
 		);
 		await zipWriter.add(
 			"traces/playwright-fixture-spans.json",
@@ -0,0 +1,199 @@
+import path from "node:path";
+import type { TestCase, TestResult, TestStep } from "@playwright/test/reporter";
+import type { ResolvedPlaywrightOpentelemetryConfig } from "../shared/config";
+import { generateSpanId, type Span, type SpanLink } from "../shared/otel";
+import { isInternalFixtureStep } from "./internal-fixture-step";
+import { ATTR_CODE_FILE_PATH, ATTR_CODE_LINE_NUMBER } from "./otel-attributes";
+import {
+	ATTR_PROJECT_NAME,
+	ATTR_TEST_STEP_TITLE,
+	ATTR_WORKER_INDEX,
+	ATTR_WORKER_PARALLEL_INDEX,
+	ATTR_WORKER_TESTS,
+	WORKER_CLEANUP_SPAN_NAME,
+	WORKER_FIXTURE_SPAN_NAME,
+	WORKER_SPAN_NAME,
+} from "./reporter-attributes";
+
+const SPAN_STATUS_CODE_ERROR = 2;
+const WORKER_CLEANUP_STEP_TITLE = "Worker Cleanup";
+
+type WorkerState = {
+	spanId: string;
+	workerIndex: number;
+	parallelIndex: number;
+	projectName: string;
+	config: ResolvedPlaywrightOpentelemetryConfig;
+	startTime: Date;
+	endTime: Date;
+	tests: number;
+	links: SpanLink[];
+	spans: Span[];
+};
+
+export type WorkerSpans = {
+	config: ResolvedPlaywrightOpentelemetryConfig;
+	spans: Span[];
+};
+
+/**
+ * Tracks a `playwright.worker` span per worker process, as children of the
+ * run span. Each worker span has a child span for every worker fixture setup
+ * and `Worker Cleanup` hook Playwright reported, and links to the tests the
+ * worker exported.
+ */
+export class WorkerTracker {
+	private readonly workers = new Map<number, WorkerState>();
+
+	constructor(
+		private readonly run: SpanLink,
+		private readonly rootDir: string | undefined,
+	) {}
+
+	recordTestResult(
+		test: TestCase,
+		result: TestResult,
+		config: ResolvedPlaywrightOpentelemetryConfig,
+	): void {
+		// Tests skipped before they reached a worker have no worker index.
+		if (typeof result.workerIndex !== "number" || result.workerIndex < 0) {
+			return;
+		}
+
+		const endTime = new Date(result.startTime.getTime() + result.duration);
+		let worker = this.workers.get(result.workerIndex);
+		if (!worker) {
+			worker = {
+				spanId: generateSpanId(),
+				workerIndex: result.workerIndex,
+				parallelIndex: result.parallelIndex,
+				// titlePath format: ['', 'project', 'filename', ...describes, 'testname']
+				projectName: test.titlePath()[1] ?? "",
+				config,
+				startTime: result.startTime,
+				endTime,
+				tests: 0,
+				links: [],
+				spans: [],
+			};
+			this.workers.set(result.workerIndex, worker);
+		}
+
+		if (result.startTime < worker.startTime) {
+			worker.startTime = result.startTime;
+		}
+		if (endTime > worker.endTime) {
+			worker.endTime = endTime;
+		}
+		worker.tests++;
+
+		const steps = flattenSteps(result.steps ?? []);
+		for (const step of workerFixtureSetupSteps(steps)) {
+			worker.spans.push(this.stepSpan(worker, WORKER_FIXTURE_SPAN_NAME, step));
+		}
+		for (const step of steps) {
+			if (isWorkerCleanupStep(step)) {
+				worker.spans.push(
+					this.stepSpan(worker, WORKER_CLEANUP_SPAN_NAME, step),
+				);
+			}
+		}
+	}
+
+	/** Link the worker span of `result` to the exported test span. */
+	linkTest(result: TestResult, testSpan: SpanLink): void {
+		this.workers.get(result.workerIndex)?.links.push(testSpan);
+	}
+
+	finish(): WorkerSpans[] {
+		return Array.from(this.workers.values(), (worker) => {
+			const span: Span = {
+				traceId: this.run.traceId,
+				spanId: worker.spanId,
+				parentSpanId: this.run.spanId,
+				name: WORKER_SPAN_NAME,
+				startTime: worker.startTime,
+				endTime: worker.endTime,
+				attributes: {
+					[ATTR_WORKER_INDEX]: worker.workerIndex,
+					[ATTR_WORKER_PARALLEL_INDEX]: worker.parallelIndex,
+					[ATTR_PROJECT_NAME]: worker.projectName,
+					[ATTR_WORKER_TESTS]: worker.tests,
+				},
+			};
+			if (worker.links.length > 0) {
+				span.links = worker.links;
+			}
+			return { config: worker.config, spans: [span, ...worker.spans] };
+		});
+	}
+
+	private stepSpan(worker: WorkerState, name: string, step: TestStep): Span {
+		const span: Span = {
+			traceId: this.run.traceId,
+			spanId: generateSpanId(),
+			parentSpanId: worker.spanId,
+			name,
+			startTime: step.startTime,
+			endTime: new Date(step.startTime.getTime() + step.duration),
+			attributes: { [ATTR_TEST_STEP_TITLE]: step.title },
+		};
+		if (step.location) {
+			span.attributes[ATTR_CODE_FILE_PATH] = this.rootDir
+				? path.relative(this.rootDir, step.location.file)
+				: step.location.file;
+			span.attributes[ATTR_CODE_LINE_NUMBER] = step.location.line;
+		}
+		if (step.error) {
+			span.status = { code: SPAN_STATUS_CODE_ERROR };
+		}
+		return span;
+	}
+}
+
+/**
+ * Flattens the step tree, leaving out the children of `Worker Cleanup`: worker
+ * fixtures are torn down inside that hook, and their teardown steps must not
+ * be taken for setups.
+ */
+function flattenSteps(steps: TestStep[]): TestStep[] {
+	return steps.flatMap((step) => [
+		step,
+		...(isWorkerCleanupStep(step) ? [] : flattenSteps(step.steps ?? [])),
+	]);
+}
+
+function isWorkerCleanupStep(step: TestStep): boolean {
+	return step.category === "hook" && step.title === WORKER_CLEANUP_STEP_TITLE;
+}
+
+/**
+ * Playwright reports a step for both the setup and the teardown of a
+ * fixture. Worker fixtures are set up in the first test that uses them but
+ * torn down in `Worker Cleanup` or after the worker's last test, outside the
+ * steps passed here, so their title shows up once where test fixtures show up
+ * twice.
+ */
+function workerFixtureSetupSteps(steps: TestStep[]): TestStep[] {
+	const fixtures = new Map<string, Map<number, TestStep>>();
+	const internalTitles = new Set<string>();
+	for (const step of steps) {
+		if (step.category !== "fixture") {
+			continue;
+		}
+		if (isInternalFixtureStep(step)) {
+			internalTitles.add(step.title);
+		}
+		// Playwright can report the same step twice, so key by start time.
+		const occurrences = fixtures.get(step.title) ?? new Map();
+		occurrences.set(step.startTime.getTime(), step);
+		fixtures.set(step.title, occurrences);
+	}
+
+	return Array.from(fixtures)
+		.filter(
+			([title, occurrences]) =>
+				occurrences.size === 1 && !internalTitles.has(title),
+		)
+		.flatMap(([, occurrences]) => Array.from(occurrences.values()));
+}
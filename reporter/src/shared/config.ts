@@ -1,37 +1,285 @@
-import { parseOtlpHeaders } from "./otel";
+import {
+	type OtlpCompression,
+	type OtlpProtocol,
+	parseOtlpHeaders,
+	type Span,
+	type SpanAttributeValue,
+} from "./otel";
 import type { PlaywrightTraceOption } from "./playwright-trace";
+import { createRedactionSpanProcessor } from "./redaction";
+import { resolveResourceAttributes } from "./resource";
+import { createTraceHeaderOriginFilter } from "./trace-header-origins";
+import { type ParentTraceContext, parseTraceparent } from "./traceparent";
+
+// RFC 7230 token, see https://www.w3.org/TR/baggage/#key
+const BAGGAGE_KEY_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// simple-key or tenant-id@system-id, see https://www.w3.org/TR/trace-context/#key
+const TRACESTATE_KEY_PATTERN =
+	/^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})$/;
 
 export type PlaywrightOpentelemetryDestination = {
 	url: string;
 	headers?: Record<string, string>;
+	/** OTLP endpoints only. Defaults to `http/json`; trace API endpoints always use JSON. */
+	protocol?: OtlpProtocol;
+	/** Request body compression. Defaults to `none`. */
+	compression?: OtlpCompression;
 };
 
 export type ResolvedPlaywrightOpentelemetryDestination = {
 	url: string;
 	headers: Record<string, string>;
+	protocol?: OtlpProtocol;
+	compression?: OtlpCompression;
+};
+
+export interface PlaywrightOpentelemetryBatchExportConfig {
+	/** Maximum number of spans sent in one OTLP request. Defaults to 512. */
+	maxExportBatchSize?: number;
+	/** Delay before a partially filled batch is sent. Defaults to 5000ms. */
+	scheduledDelayMillis?: number;
+	/** Maximum number of spans waiting to be sent before new spans are dropped. Defaults to 2048. */
+	maxQueueSize?: number;
+}
+
+export type ResolvedPlaywrightOpentelemetryBatchExportConfig =
+	Required<PlaywrightOpentelemetryBatchExportConfig>;
+
+export interface PlaywrightOpentelemetryExportRetryConfig {
+	/** Attempts per OTLP request, including the first one. Defaults to 5. */
+	maxAttempts?: number;
+	/** Backoff before the first retry, doubled for each further retry. Defaults to 1000ms. */
+	initialBackoffMillis?: number;
+	/** Upper bound for backoff and `Retry-After` delays. Defaults to 30000ms. */
+	maxBackoffMillis?: number;
+}
+
+export type ResolvedPlaywrightOpentelemetryExportRetryConfig =
+	Required<PlaywrightOpentelemetryExportRetryConfig>;
+
+export interface PlaywrightOpentelemetryTestOutputConfig {
+	/** Record test stdout/stderr as `log` events on the test span. Defaults to true. */
+	capture?: boolean;
+	/** Characters kept per output chunk; longer chunks are truncated. Defaults to 4096. */
+	maxEventLength?: number;
+	/** Output chunks kept per test attempt; later chunks are dropped. Defaults to 200. */
+	maxEventsPerTest?: number;
+}
+
+export type ResolvedPlaywrightOpentelemetryTestOutputConfig =
+	Required<PlaywrightOpentelemetryTestOutputConfig>;
+
+export interface PlaywrightOpentelemetryWebSocketConfig {
+	/** Record text frame payloads on frame events. Defaults to false. */
+	capturePayloads?: boolean;
+	/** Characters kept per captured payload; longer payloads are truncated. Defaults to 1024. */
+	maxPayloadLength?: number;
+	/** Frame events kept per socket; later frames are only counted. Defaults to 200. */
+	maxFrameEvents?: number;
+}
+
+export type ResolvedPlaywrightOpentelemetryWebSocketConfig =
+	Required<PlaywrightOpentelemetryWebSocketConfig>;
+
+export const DEFAULT_WEBSOCKET_CONFIG: ResolvedPlaywrightOpentelemetryWebSocketConfig =
+	{
+		capturePayloads: false,
+		maxPayloadLength: 1024,
+		maxFrameEvents: 200,
+	};
+
+export interface PlaywrightOpentelemetryNetworkCaptureConfig {
+	/** Request headers recorded as `http.request.header.<name>` attributes. Case-insensitive. */
+	requestHeaders?: string[];
+	/** Response headers recorded as `http.response.header.<name>` attributes. Case-insensitive. */
+	responseHeaders?: string[];
+	/** Record fetch/XHR request and response bodies as span events. Defaults to false. */
+	captureBodies?: boolean;
+	/** Characters kept per body; longer bodies are truncated. Defaults to 4096. */
+	maxBodyLength?: number;
+	/** Content types whose bodies are recorded, with `*` wildcards. Defaults to JSON, XML, text and form types. */
+	bodyContentTypes?: string[];
+}
+
+export type ResolvedPlaywrightOpentelemetryNetworkCaptureConfig =
+	Required<PlaywrightOpentelemetryNetworkCaptureConfig>;
+
+const DEFAULT_BODY_CONTENT_TYPES = [
+	"application/json",
+	"application/*+json",
+	"application/xml",
+	"application/*+xml",
+	"application/x-www-form-urlencoded",
+	"text/*",
+];
+
+export interface PlaywrightOpentelemetrySamplingConfig {
+	/** Share of tests exported, from 0 to 1, for every project or keyed by project name. Defaults to 1. */
+	ratio?: number | Record<string, number>;
+	/** Export failed attempts and retries whatever the ratio. Defaults to true. */
+	keepFailures?: boolean;
+	/** Only export tests with at least one of these tags, e.g. `@smoke`. */
+	includeTags?: string[];
+	/** Never export tests with any of these tags. */
+	excludeTags?: string[];
+}
+
+export type ResolvedPlaywrightOpentelemetrySamplingConfig =
+	Required<PlaywrightOpentelemetrySamplingConfig>;
+
+export interface PlaywrightOpentelemetryRedactionConfig {
+	/** Query parameters whose values are replaced in every URL, e.g. `token`. Case-insensitive. */
+	queryParams?: string[];
+	/** Headers whose `http.request.header.*` and `http.response.header.*` attributes are replaced. Case-insensitive. */
+	headers?: string[];
+	/** Regular expressions replaced in every string attribute, event attribute and status message. */
+	patterns?: Array<string | RegExp>;
+	/** Defaults to `REDACTED`. */
+	replacement?: string;
+}
+
+/** Header formats trace context is propagated in. */
+export type PlaywrightOpentelemetryPropagator =
+	| "tracecontext"
+	| "b3"
+	| "b3multi"
+	| "jaeger"
+	| "xray";
+
+const PROPAGATORS: PlaywrightOpentelemetryPropagator[] = [
+	"tracecontext",
+	"b3",
+	"b3multi",
+	"jaeger",
+	"xray",
+];
+
+export interface PlaywrightOpentelemetryTraceHeaderOriginsConfig {
+	/** Only these origins get trace headers, e.g. `https://*.example.com` or `/^http:\/\/localhost:\d+$/`. */
+	allow?: Array<string | RegExp>;
+	/** These origins never get trace headers, even when allowed. */
+	deny?: Array<string | RegExp>;
+}
+
+export interface PlaywrightOpentelemetryTestIdentityConfig {
+	/** Baggage key of each test field, or `false` to leave the field out. */
+	baggageKeys?: {
+		/** Defaults to `playwright.test.id`. */
+		testId?: string | false;
+		/** Defaults to `playwright.test.title`. */
+		title?: string | false;
+		/** Defaults to `playwright.project.name`. */
+		project?: string | false;
+		/** Defaults to `playwright.test.retry`. */
+		retry?: string | false;
+	};
+	/** Also send the test ID as this `tracestate` vendor key, e.g. `playwright`. */
+	tracestateKey?: string;
+}
+
+export type ResolvedPlaywrightOpentelemetryTestIdentityConfig = {
+	baggageKeys: Required<
+		NonNullable<PlaywrightOpentelemetryTestIdentityConfig["baggageKeys"]>
+	>;
+	tracestateKey: string | undefined;
 };
 
+export type PlaywrightOpentelemetrySpan = Span;
+
+/**
+ * Called for every span before it is exported or written to a trace ZIP.
+ * Return `null` to drop the span, a span to replace it, or nothing to keep
+ * the span after mutating it.
+ */
+export type PlaywrightOpentelemetrySpanProcessor = (
+	span: PlaywrightOpentelemetrySpan,
+) => PlaywrightOpentelemetrySpan | null | undefined;
+
 export interface PlaywrightOpentelemetryConfig {
 	otlpEndpoint?: PlaywrightOpentelemetryDestination;
 	otlpEndpoints?: PlaywrightOpentelemetryDestination[];
+	/** OTLP logs endpoint (`.../v1/logs`) for console messages, page errors and test output. */
+	otlpLogsEndpoint?: PlaywrightOpentelemetryDestination;
+	otlpLogsEndpoints?: PlaywrightOpentelemetryDestination[];
+	/** OTLP metrics endpoint (`.../v1/metrics`) for test duration and outcome metrics. */
+	otlpMetricsEndpoint?: PlaywrightOpentelemetryDestination;
+	otlpMetricsEndpoints?: PlaywrightOpentelemetryDestination[];
 	playwrightTraceApiEndpoint?: PlaywrightOpentelemetryDestination;
 	playwrightTraceApiEndpoints?: PlaywrightOpentelemetryDestination[];
 	storeTraceZip?: boolean;
 	trace?: PlaywrightTraceOption;
+	/** Export only some of the tests whose Playwright trace is retained. */
+	sampling?: PlaywrightOpentelemetrySamplingConfig;
 	propagateTraceHeaders?: boolean;
+	/** Header formats for `propagateTraceHeaders`: W3C `tracecontext`, Zipkin `b3` and `b3multi`, `jaeger` or AWS `xray`. Defaults to `["tracecontext"]`. */
+	propagators?: PlaywrightOpentelemetryPropagator[];
+	/** Origins that get trace, baggage and tracestate headers. Requests to other origins are still recorded. */
+	traceHeaderOrigins?: PlaywrightOpentelemetryTraceHeaderOriginsConfig;
+	/** Send the test ID, title, project and retry in a W3C `baggage` header with each `traceparent`. Off by default. */
+	propagateTestIdentity?: boolean | PlaywrightOpentelemetryTestIdentityConfig;
+	/** W3C `traceparent` the `playwright.run` span becomes a child of, e.g. the CI job span. `TRACEPARENT` takes precedence. */
+	traceparent?: string;
+	/** W3C `tracestate` that goes with `traceparent`. `TRACESTATE` is used with `TRACEPARENT`. */
+	tracestate?: string;
+	batchExport?: PlaywrightOpentelemetryBatchExportConfig;
+	exportRetry?: PlaywrightOpentelemetryExportRetryConfig;
+	/** Directory where OTLP requests that fail after retries are kept for replay. */
+	spoolDir?: string;
+	/** Added to the resource of every exported span, e.g. `deployment.environment.name`. */
+	resourceAttributes?: Record<string, SpanAttributeValue>;
+	/** Add commit, branch and CI run resource attributes. Defaults to true. */
+	detectCiResource?: boolean;
+	testOutput?: PlaywrightOpentelemetryTestOutputConfig;
+	/** Browser WebSocket spans and their frame events. */
+	webSockets?: PlaywrightOpentelemetryWebSocketConfig;
+	/** Opt-in headers and bodies on browser network spans. */
+	networkCapture?: PlaywrightOpentelemetryNetworkCaptureConfig;
+	/** Run in order for reporter and fixture spans. */
+	spanProcessors?: PlaywrightOpentelemetrySpanProcessor[];
+	/** Applied after `spanProcessors`, before spans are exported or zipped. */
+	redaction?: PlaywrightOpentelemetryRedactionConfig;
 	debug?: boolean;
 }
 
+/**
+ * Options of the `playwright-opentelemetry/reporter` entry in `reporter`.
+ * They apply to projects without `use.playwrightOpentelemetry`, which
+ * includes every project when `playwright merge-reports` replays blob reports.
+ */
+export interface PlaywrightOpentelemetryReporterOptions
+	extends PlaywrightOpentelemetryConfig {
+	/** Export again when `playwright merge-reports` replays blob reports. Defaults to false, because each shard already exported its tests. */
+	exportOnMerge?: boolean;
+}
+
 export interface PlaywrightOpentelemetryUseOptions {
 	playwrightOpentelemetry?: PlaywrightOpentelemetryConfig;
 }
 
 export interface ResolvedPlaywrightOpentelemetryConfig {
 	otlpDestinations: ResolvedPlaywrightOpentelemetryDestination[];
+	otlpLogsDestinations: ResolvedPlaywrightOpentelemetryDestination[];
+	otlpMetricsDestinations: ResolvedPlaywrightOpentelemetryDestination[];
 	playwrightTraceApiDestinations: ResolvedPlaywrightOpentelemetryDestination[];
 	storeTraceZip: boolean;
 	trace: PlaywrightTraceOption | null;
+	sampling: ResolvedPlaywrightOpentelemetrySamplingConfig;
 	propagateTraceHeaders: boolean;
+	propagators: PlaywrightOpentelemetryPropagator[];
+	/** Whether a request URL's origin gets trace headers. */
+	traceHeaderOrigins: (url: string) => boolean;
+	propagateTestIdentity:
+		| ResolvedPlaywrightOpentelemetryTestIdentityConfig
+		| undefined;
+	parentTraceContext: ParentTraceContext | undefined;
+	batchExport: ResolvedPlaywrightOpentelemetryBatchExportConfig;
+	exportRetry: ResolvedPlaywrightOpentelemetryExportRetryConfig;
+	spoolDir: string | undefined;
+	resourceAttributes: Record<string, SpanAttributeValue>;
+	testOutput: ResolvedPlaywrightOpentelemetryTestOutputConfig;
+	webSockets: ResolvedPlaywrightOpentelemetryWebSocketConfig;
+	networkCapture: ResolvedPlaywrightOpentelemetryNetworkCaptureConfig;
+	spanProcessors: PlaywrightOpentelemetrySpanProcessor[];
 	debug: boolean;
 }
 
@@ -49,12 +297,30 @@ export function resolvePlaywrightOpentelemetryConfig(
 		otlpDestinations: resolveDestinationKind({
 			envEndpointName: "OTEL_EXPORTER_OTLP_ENDPOINT",
 			envHeadersName: "OTEL_EXPORTER_OTLP_HEADERS",
+			envProtocolName: "OTEL_EXPORTER_OTLP_PROTOCOL",
+			envCompressionName: "OTEL_EXPORTER_OTLP_COMPRESSION",
 			singular: resolveLegacyDestinationConfig(
 				config?.otlpEndpoint,
 				(config as any)?.otlpHeaders,
 			),
 			plural: config?.otlpEndpoints,
 		}),
+		otlpLogsDestinations: resolveDestinationKind({
+			envEndpointName: "OTEL_EXPORTER_OTLP_LOGS_ENDPOINT",
+			envHeadersName: "OTEL_EXPORTER_OTLP_LOGS_HEADERS",
+			envProtocolName: "OTEL_EXPORTER_OTLP_LOGS_PROTOCOL",
+			envCompressionName: "OTEL_EXPORTER_OTLP_LOGS_COMPRESSION",
+			singular: config?.otlpLogsEndpoint,
+			plural: config?.otlpLogsEndpoints,
+		}),
+		otlpMetricsDestinations: resolveDestinationKind({
+			envEndpointName: "OTEL_EXPORTER_OTLP_METRICS_ENDPOINT",
+			envHeadersName: "OTEL_EXPORTER_OTLP_METRICS_HEADERS",
+			envProtocolName: "OTEL_EXPORTER_OTLP_METRICS_PROTOCOL",
+			envCompressionName: "OTEL_EXPORTER_OTLP_METRICS_COMPRESSION",
+			singular: config?.otlpMetricsEndpoint,
+			plural: config?.otlpMetricsEndpoints,
+		}),
 		playwrightTraceApiDestinations: resolveDestinationKind({
 			envEndpointName: "PLAYWRIGHT_TRACE_API_ENDPOINT",
 			envHeadersName: "PLAYWRIGHT_TRACE_API_HEADERS",
@@ -66,7 +332,27 @@ export function resolvePlaywrightOpentelemetryConfig(
 		}),
 		storeTraceZip: config?.storeTraceZip === true,
 		trace: config?.trace ?? null,
+		sampling: resolveSamplingConfig(config?.sampling),
 		propagateTraceHeaders: config?.propagateTraceHeaders ?? true,
+		propagators: resolvePropagators(config?.propagators),
+		traceHeaderOrigins: createTraceHeaderOriginFilter(
+			config?.traceHeaderOrigins,
+		),
+		propagateTestIdentity: resolveTestIdentityConfig(
+			config?.propagateTestIdentity,
+		),
+		parentTraceContext: resolveParentTraceContext(config),
+		batchExport: resolveBatchExportConfig(config?.batchExport),
+		exportRetry: resolveExportRetryConfig(config?.exportRetry),
+		spoolDir:
+			process.env.PLAYWRIGHT_OPENTELEMETRY_SPOOL_DIR || config?.spoolDir,
+		resourceAttributes: resolveResourceAttributes(config?.resourceAttributes, {
+			detectCi: config?.detectCiResource ?? true,
+		}),
+		testOutput: resolveTestOutputConfig(config?.testOutput),
+		webSockets: resolveWebSocketConfig(config?.webSockets),
+		networkCapture: resolveNetworkCaptureConfig(config?.networkCapture),
+		spanProcessors: resolveSpanProcessors(config),
 		debug:
 			debugEnv === undefined
 				? (config?.debug ?? false)
@@ -88,6 +374,8 @@ function hasPlaywrightOpentelemetryDestination(
 ): boolean {
 	return Boolean(
 		config.otlpDestinations.some((destination) => destination.url) ||
+			config.otlpLogsDestinations.some((destination) => destination.url) ||
+			config.otlpMetricsDestinations.some((destination) => destination.url) ||
 			config.playwrightTraceApiDestinations.some(
 				(destination) => destination.url,
 			) ||
@@ -95,14 +383,29 @@ function hasPlaywrightOpentelemetryDestination(
 	);
 }
 
+const OTLP_PROTOCOLS: readonly OtlpProtocol[] = ["http/json", "http/protobuf"];
+const OTLP_COMPRESSIONS: readonly OtlpCompression[] = ["gzip", "none"];
+const warnedEnvValues = new Set<string>();
+
 function resolveDestinationKind(options: {
 	envEndpointName: string;
 	envHeadersName: string;
+	/** Only set for destination kinds that support more than OTLP JSON. */
+	envProtocolName?: string;
+	envCompressionName?: string;
 	singular?: PlaywrightOpentelemetryDestination;
 	plural?: PlaywrightOpentelemetryDestination[];
 }): ResolvedPlaywrightOpentelemetryDestination[] {
 	const envEndpoint = process.env[options.envEndpointName];
 	const envHeaders = process.env[options.envHeadersName];
+	const envProtocol = readSupportedEnvValue(
+		options.envProtocolName,
+		OTLP_PROTOCOLS,
+	);
+	const envCompression = readSupportedEnvValue(
+		options.envCompressionName,
+		OTLP_COMPRESSIONS,
+	);
 
 	if (envHeaders && !envEndpoint) {
 		throw new Error(
@@ -110,6 +413,35 @@ function resolveDestinationKind(options: {
 		);
 	}
 
+	const resolveEncoding = (
+		destination: PlaywrightOpentelemetryDestination | undefined,
+	): Pick<
+		ResolvedPlaywrightOpentelemetryDestination,
+		"protocol" | "compression"
+	> => {
+		const encoding: Pick<
+			ResolvedPlaywrightOpentelemetryDestination,
+			"protocol" | "compression"
+		> = {};
+
+		// Settings on the destination win over the environment.
+		const protocol = destination?.protocol
+			? validateOtlpProtocol(destination.protocol)
+			: envProtocol;
+		if (options.envProtocolName && protocol) {
+			encoding.protocol = protocol;
+		}
+
+		const compression = destination?.compression
+			? validateOtlpCompression(destination.compression)
+			: envCompression;
+		if (compression) {
+			encoding.compression = compression;
+		}
+
+		return encoding;
+	};
+
 	let primaryDestination:
 		| ResolvedPlaywrightOpentelemetryDestination
 		| undefined;
@@ -117,17 +449,20 @@ function resolveDestinationKind(options: {
 		primaryDestination = {
 			url: envEndpoint,
 			headers: parseOtlpHeaders(envHeaders),
+			...resolveEncoding(undefined),
 		};
 	} else if (options.singular) {
 		primaryDestination = {
 			url: options.singular.url,
 			headers: { ...options.singular.headers },
+			...resolveEncoding(options.singular),
 		};
 	}
 
 	const additionalDestinations = (options.plural ?? []).map((destination) => ({
 		url: destination.url,
 		headers: { ...destination.headers },
+		...resolveEncoding(destination),
 	}));
 
 	return primaryDestination
@@ -135,6 +470,309 @@ function resolveDestinationKind(options: {
 		: additionalDestinations;
 }
 
+function validateOtlpProtocol(protocol: string): OtlpProtocol {
+	if (OTLP_PROTOCOLS.includes(protocol as OtlpProtocol)) {
+		return protocol as OtlpProtocol;
+	}
+
+	throw new Error(
+		`playwrightOpentelemetry destination protocol must be "http/json" or "http/protobuf", got "${protocol}".`,
+	);
+}
+
+function validateOtlpCompression(compression: string): OtlpCompression {
+	if (OTLP_COMPRESSIONS.includes(compression as OtlpCompression)) {
+		return compression as OtlpCompression;
+	}
+
+	throw new Error(
+		`playwrightOpentelemetry destination compression must be "gzip" or "none", got "${compression}".`,
+	);
+}
+
+/**
+ * Read an OTLP environment variable, ignoring values this reporter does not
+ * support. CI often sets `OTEL_EXPORTER_OTLP_PROTOCOL=grpc` for other SDKs,
+ * which should not stop the test run.
+ */
+function readSupportedEnvValue<T extends string>(
+	name: string | undefined,
+	supported: readonly T[],
+): T | undefined {
+	const value = name ? process.env[name] : undefined;
+	if (!value) {
+		return undefined;
+	}
+	if (supported.includes(value as T)) {
+		return value as T;
+	}
+
+	warnEnvValueOnce(
+		name ?? "",
+		value,
+		`playwright-opentelemetry ignores ${name}="${value}" and uses its default, because it only supports ${supported.map((candidate) => `"${candidate}"`).join(" or ")}.`,
+	);
+	return undefined;
+}
+
+/** Config is resolved per project and per test, so warn once per value. */
+function warnEnvValueOnce(name: string, value: string, message: string): void {
+	const key = `${name}=${value}`;
+	if (!warnedEnvValues.has(key)) {
+		warnedEnvValues.add(key);
+		console.warn(message);
+	}
+}
+
+function resolveBatchExportConfig(
+	config: PlaywrightOpentelemetryBatchExportConfig | undefined,
+): ResolvedPlaywrightOpentelemetryBatchExportConfig {
+	return {
+		maxExportBatchSize: resolvePositiveInteger(
+			"batchExport.maxExportBatchSize",
+			config?.maxExportBatchSize,
+			512,
+			"OTEL_BSP_MAX_EXPORT_BATCH_SIZE",
+		),
+		scheduledDelayMillis: resolvePositiveInteger(
+			"batchExport.scheduledDelayMillis",
+			config?.scheduledDelayMillis,
+			5000,
+			"OTEL_BSP_SCHEDULE_DELAY",
+		),
+		maxQueueSize: resolvePositiveInteger(
+			"batchExport.maxQueueSize",
+			config?.maxQueueSize,
+			2048,
+			"OTEL_BSP_MAX_QUEUE_SIZE",
+		),
+	};
+}
+
+function resolveExportRetryConfig(
+	config: PlaywrightOpentelemetryExportRetryConfig | undefined,
+): ResolvedPlaywrightOpentelemetryExportRetryConfig {
+	return {
+		maxAttempts: resolvePositiveInteger(
+			"exportRetry.maxAttempts",
+			config?.maxAttempts,
+			5,
+		),
+		initialBackoffMillis: resolvePositiveInteger(
+			"exportRetry.initialBackoffMillis",
+			config?.initialBackoffMillis,
+			1000,
+		),
+		maxBackoffMillis: resolvePositiveInteger(
+			"exportRetry.maxBackoffMillis",
+			config?.maxBackoffMillis,
+			30000,
+		),
+	};
+}
+
+function resolveTestOutputConfig(
+	config: PlaywrightOpentelemetryTestOutputConfig | undefined,
+): ResolvedPlaywrightOpentelemetryTestOutputConfig {
+	return {
+		capture: config?.capture ?? true,
+		maxEventLength: resolvePositiveInteger(
+			"testOutput.maxEventLength",
+			config?.maxEventLength,
+			4096,
+		),
+		maxEventsPerTest: resolvePositiveInteger(
+			"testOutput.maxEventsPerTest",
+			config?.maxEventsPerTest,
+			200,
+		),
+	};
+}
+
+function resolveWebSocketConfig(
+	config: PlaywrightOpentelemetryWebSocketConfig | undefined,
+): ResolvedPlaywrightOpentelemetryWebSocketConfig {
+	return {
+		capturePayloads:
+			config?.capturePayloads ?? DEFAULT_WEBSOCKET_CONFIG.capturePayloads,
+		maxPayloadLength: resolvePositiveInteger(
+			"webSockets.maxPayloadLength",
+			config?.maxPayloadLength,
+			DEFAULT_WEBSOCKET_CONFIG.maxPayloadLength,
+		),
+		maxFrameEvents: resolvePositiveInteger(
+			"webSockets.maxFrameEvents",
+			config?.maxFrameEvents,
+			DEFAULT_WEBSOCKET_CONFIG.maxFrameEvents,
+		),
+	};
+}
+
+function resolveNetworkCaptureConfig(
+	config: PlaywrightOpentelemetryNetworkCaptureConfig | undefined,
+): ResolvedPlaywrightOpentelemetryNetworkCaptureConfig {
+	return {
+		requestHeaders: (config?.requestHeaders ?? []).map((name) =>
+			name.toLowerCase(),
+		),
+		responseHeaders: (config?.responseHeaders ?? []).map((name) =>
+			name.toLowerCase(),
+		),
+		captureBodies: config?.captureBodies ?? false,
+		maxBodyLength: resolvePositiveInteger(
+			"networkCapture.maxBodyLength",
+			config?.maxBodyLength,
+			4096,
+		),
+		bodyContentTypes: (
+			config?.bodyContentTypes ?? DEFAULT_BODY_CONTENT_TYPES
+		).map((contentType) => contentType.toLowerCase()),
+	};
+}
+
+function resolveSamplingConfig(
+	config: PlaywrightOpentelemetrySamplingConfig | undefined,
+): ResolvedPlaywrightOpentelemetrySamplingConfig {
+	const ratio = config?.ratio ?? 1;
+	if (typeof ratio === "number") {
+		assertSamplingRatio("sampling.ratio", ratio);
+	} else {
+		for (const [projectName, projectRatio] of Object.entries(ratio)) {
+			assertSamplingRatio(
+				`sampling.ratio[${JSON.stringify(projectName)}]`,
+				projectRatio,
+			);
+		}
+	}
+
+	return {
+		ratio,
+		keepFailures: config?.keepFailures ?? true,
+		includeTags: config?.includeTags ?? [],
+		excludeTags: config?.excludeTags ?? [],
+	};
+}
+
+function assertSamplingRatio(name: string, value: number): void {
+	if (!Number.isFinite(value) || value < 0 || value > 1) {
+		throw new Error(
+			`playwrightOpentelemetry.${name} must be between 0 and 1, got ${value}.`,
+		);
+	}
+}
+
+function resolvePropagators(
+	propagators: PlaywrightOpentelemetryPropagator[] | undefined,
+): PlaywrightOpentelemetryPropagator[] {
+	for (const propagator of propagators ?? []) {
+		if (!PROPAGATORS.includes(propagator)) {
+			throw new Error(
+				`playwrightOpentelemetry.propagators must only contain ${PROPAGATORS.map((name) => `"${name}"`).join(", ")}, got "${propagator}".`,
+			);
+		}
+	}
+	return propagators ? Array.from(new Set(propagators)) : ["tracecontext"];
+}
+
+function resolveTestIdentityConfig(
+	config: boolean | PlaywrightOpentelemetryTestIdentityConfig | undefined,
+): ResolvedPlaywrightOpentelemetryTestIdentityConfig | undefined {
+	if (!config) {
+		return undefined;
+	}
+
+	const options = config === true ? {} : config;
+	const baggageKeys = {
+		testId: options.baggageKeys?.testId ?? "playwright.test.id",
+		title: options.baggageKeys?.title ?? "playwright.test.title",
+		project: options.baggageKeys?.project ?? "playwright.project.name",
+		retry: options.baggageKeys?.retry ?? "playwright.test.retry",
+	};
+	for (const [field, key] of Object.entries(baggageKeys)) {
+		if (key !== false && !BAGGAGE_KEY_PATTERN.test(key)) {
+			throw new Error(
+				`playwrightOpentelemetry.propagateTestIdentity.baggageKeys.${field} must be a W3C baggage key, got "${key}".`,
+			);
+		}
+	}
+	if (
+		options.tracestateKey !== undefined &&
+		!TRACESTATE_KEY_PATTERN.test(options.tracestateKey)
+	) {
+		throw new Error(
+			`playwrightOpentelemetry.propagateTestIdentity.tracestateKey must be a W3C tracestate key, got "${options.tracestateKey}".`,
+		);
+	}
+
+	return { baggageKeys, tracestateKey: options.tracestateKey };
+}
+
+function resolveParentTraceContext(
+	config: PlaywrightOpentelemetryConfig | undefined,
+): ParentTraceContext | undefined {
+	const envTraceparent = process.env.TRACEPARENT;
+	if (envTraceparent) {
+		const parent = parseTraceparent(envTraceparent, process.env.TRACESTATE);
+		if (parent) {
+			return parent;
+		}
+		// CI can inject values the spec says to ignore, which should not fail
+		// every test.
+		warnEnvValueOnce(
+			"TRACEPARENT",
+			envTraceparent,
+			`playwright-opentelemetry ignores TRACEPARENT="${envTraceparent}", because it is not a W3C traceparent such as "00-<trace-id>-<span-id>-01".`,
+		);
+	}
+
+	if (!config?.traceparent) {
+		return undefined;
+	}
+	const parent = parseTraceparent(config.traceparent, config.tracestate);
+	if (!parent) {
+		throw new Error(
+			`playwrightOpentelemetry.traceparent must be a W3C traceparent such as "00-<trace-id>-<span-id>-01", got "${config.traceparent}".`,
+		);
+	}
+	return parent;
+}
+
+function resolvePositiveInteger(
+	name: string,
+	configValue: number | undefined,
+	defaultValue: number,
+	envName?: string,
+): number {
+	const envValue = envName ? process.env[envName] : undefined;
+	const value = envValue ? Number(envValue) : configValue;
+	if (value === undefined) {
+		return defaultValue;
+	}
+
+	if (!Number.isInteger(value) || value <= 0) {
+		throw new Error(
+			envValue
+				? `${envName} must be a positive integer, got "${envValue}".`
+				: `playwrightOpentelemetry.${name} must be a positive integer, got ${value}.`,
+		);
+	}
+	return value;
+}
+
+function resolveSpanProcessors(
+	config: PlaywrightOpentelemetryConfig | undefined,
+): PlaywrightOpentelemetrySpanProcessor[] {
+	const processors = [...(config?.spanProcessors ?? [])];
+	// Redact last so attributes added by user processors are covered too.
+	const redaction = config?.redaction
+		? createRedactionSpanProcessor(config.redaction)
+		: undefined;
+	if (redaction) {
+		processors.push(redaction);
+	}
+	return processors;
+}
+
 function resolveLegacyDestinationConfig(
 	destination: PlaywrightOpentelemetryDestination | string | undefined,
 	headers: Record<string, string> | undefined,
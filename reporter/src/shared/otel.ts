@@ -1,4 +1,12 @@
+import { promisify } from "node:util";
+import { gzip } from "node:zlib";
 import { version } from "../../package.json" with { type: "json" };
+import { encodeOtlpTraceRequest } from "./otlp-protobuf";
+import {
+	readSpooledOtlpRequests,
+	removeSpooledOtlpRequest,
+	spoolOtlpRequest,
+} from "./spool";
 
 export type SpanAttributeValue = string | number | boolean | string[];
 
@@ -8,26 +16,57 @@ export type SpanEvent = {
 	attributes?: Record<string, SpanAttributeValue>;
 };
 
+export type SpanLink = {
+	traceId: string;
+	spanId: string;
+	attributes?: Record<string, SpanAttributeValue>;
+};
+
 export type Span = {
 	traceId: string;
 	spanId: string;
 	parentSpanId?: string;
+	/** W3C `tracestate` of the span context. */
+	traceState?: string;
 	name: string;
 	startTime: Date;
 	endTime: Date;
 	attributes: Record<string, SpanAttributeValue>;
 	events?: SpanEvent[];
 	status?: { code: number; message?: string };
+	links?: SpanLink[];
 	kind?: number;
 	/** Service name for this span (if different from default). */
 	serviceName?: string;
 };
 
+/** OTLP/HTTP encodings, named as in `OTEL_EXPORTER_OTLP_PROTOCOL`. */
+export type OtlpProtocol = "http/json" | "http/protobuf";
+
+/** OTLP/HTTP body compression, named as in `OTEL_EXPORTER_OTLP_COMPRESSION`. */
+export type OtlpCompression = "gzip" | "none";
+
 export interface SendSpansOptions {
 	tracesEndpoint: string;
 	headers?: Record<string, string>;
+	/** Defaults to `http/json`. */
+	protocol?: OtlpProtocol;
+	/** Defaults to `none`. */
+	compression?: OtlpCompression;
+	/** Added to the resource of every exported span. */
+	resourceAttributes?: Record<string, SpanAttributeValue>;
 	playwrightVersion: string;
 	debug?: boolean;
+	/** Retry policy for transient failures. Requests are sent once when omitted. */
+	retry?: SendSpansRetryOptions;
+	/** Directory where requests that still fail after retries are spooled instead of throwing. */
+	spoolDir?: string;
+}
+
+export interface SendSpansRetryOptions {
+	maxAttempts: number;
+	initialBackoffMillis: number;
+	maxBackoffMillis: number;
 }
 
 export const PLAYWRIGHT_TESTS_SERVICE_NAME = "playwright-tests";
@@ -63,11 +102,11 @@ export function parseOtlpHeaders(
 	return headers;
 }
 
-function dateToNanoseconds(date: Date): string {
+export function dateToNanoseconds(date: Date): string {
 	return (BigInt(date.getTime()) * BigInt(1_000_000)).toString();
 }
 
-function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+export function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
 	return Object.entries(attributes).map(([key, value]) => {
 		if (Array.isArray(value)) {
 			return {
@@ -109,10 +148,12 @@ function buildResourceSpan(
 	spans: Span[],
 	serviceName: string,
 	playwrightVersion: string,
+	extraResourceAttributes: Record<string, SpanAttributeValue>,
 ) {
 	const otlpSpans = spans.map((span) => ({
 		traceId: span.traceId,
 		spanId: span.spanId,
+		traceState: span.traceState || undefined,
 		parentSpanId: span.parentSpanId || undefined,
 		name: span.name,
 		kind: span.kind ?? SPAN_KIND_INTERNAL,
@@ -128,42 +169,61 @@ function buildResourceSpan(
 		})),
 		droppedEventsCount: 0,
 		status: span.status,
-		links: [],
+		links: (span.links ?? []).map((link) => ({
+			traceId: link.traceId,
+			spanId: link.spanId,
+			attributes: toOtlpAttributes(link.attributes ?? {}),
+			droppedAttributesCount: 0,
+		})),
 		droppedLinksCount: 0,
 	}));
 
 	return {
-		resource: {
-			attributes: [
-				{
-					key: "service.name",
-					value: { stringValue: serviceName },
-				},
-				{
-					key: "service.namespace",
-					value: { stringValue: "playwright" },
-				},
-				{
-					key: "service.version",
-					value: { stringValue: playwrightVersion },
-				},
-			],
-		},
+		resource: buildOtlpResource(
+			serviceName,
+			playwrightVersion,
+			extraResourceAttributes,
+		),
 		scopeSpans: [
 			{
-				scope: {
-					name: "playwright-opentelemetry",
-					version,
-				},
+				scope: OTLP_INSTRUMENTATION_SCOPE,
 				spans: otlpSpans,
 			},
 		],
 	};
 }
 
+export const OTLP_INSTRUMENTATION_SCOPE = {
+	name: "playwright-opentelemetry",
+	version,
+};
+
+export function buildOtlpResource(
+	serviceName: string,
+	playwrightVersion: string,
+	extraResourceAttributes: Record<string, SpanAttributeValue>,
+) {
+	const resourceAttributes: Record<string, SpanAttributeValue> = {
+		"service.name": serviceName,
+		"service.namespace": "playwright",
+		"service.version": playwrightVersion,
+		...extraResourceAttributes,
+	};
+	// A configured service name only renames the test spans. Browser spans
+	// keep their own service, which the trace viewer relies on.
+	if (serviceName !== PLAYWRIGHT_TESTS_SERVICE_NAME) {
+		resourceAttributes["service.name"] = serviceName;
+	}
+
+	return {
+		attributes: toOtlpAttributes(resourceAttributes),
+	};
+}
+
 export function buildOtlpRequest(
 	spans: Span[],
 	playwrightVersion: string,
+	resourceAttributes: Record<string, SpanAttributeValue> = {},
 ) {
 	const spansByService = new Map<string, Span[]>();
 
@@ -179,41 +239,265 @@ export function buildOtlpRequest(
 
 	const resourceSpans = [];
 	for (const [svcName, svcSpans] of spansByService) {
-		resourceSpans.push(buildResourceSpan(svcSpans, svcName, playwrightVersion));
+		resourceSpans.push(
+			buildResourceSpan(
+				svcSpans,
+				svcName,
+				playwrightVersion,
+				resourceAttributes,
+			),
+		);
 	}
 
 	return { resourceSpans };
 }
 
+export type OtlpTraceRequest = ReturnType<typeof buildOtlpRequest>;
+
+/** Outcome of a `sendSpans` call that did not throw. */
+export type SendSpansOutcome = "sent" | "spooled";
+
+/** Signal name used in log and error messages. */
+export type OtlpSignal = "spans" | "logs" | "metrics";
+
+/** Transport options shared by every OTLP signal. */
+export type OtlpExportOptions = Omit<SendSpansOptions, "tracesEndpoint">;
+
 export async function sendSpans(
 	spans: Span[],
 	options: SendSpansOptions,
-): Promise<void> {
+): Promise<SendSpansOutcome> {
 	if (spans.length === 0) {
-		return;
+		return "sent";
 	}
 
-	const body = JSON.stringify(
-		buildOtlpRequest(spans, options.playwrightVersion),
+	const request = buildOtlpRequest(
+		spans,
+		options.playwrightVersion,
+		options.resourceAttributes,
+	);
+	return exportOtlpRequest(
+		options.tracesEndpoint,
+		"spans",
+		spans.length,
+		{
+			json: () => request,
+			protobuf: () => encodeOtlpTraceRequest(request),
+		},
+		options,
 	);
+}
+
+/**
+ * Encode and send one OTLP export request. When `options.spoolDir` is set, a
+ * request that still fails after retries is spooled instead of throwing.
+ */
+export async function exportOtlpRequest(
+	endpoint: string,
+	signal: OtlpSignal,
+	itemCount: number,
+	encode: { json: () => unknown; protobuf: () => Uint8Array },
+	options: OtlpExportOptions,
+): Promise<SendSpansOutcome> {
+	const { body, contentType } =
+		options.protocol === "http/protobuf"
+			? { body: encode.protobuf(), contentType: "application/x-protobuf" }
+			: {
+					body: JSON.stringify(encode.json()),
+					contentType: "application/json",
+				};
 
 	if (options.debug) {
-		console.log("Sending spans to", options.tracesEndpoint);
+		console.log(`Sending ${signal} to`, endpoint);
 	}
 
-	const response = await fetch(options.tracesEndpoint, {
-		method: "POST",
-		body,
-		headers: {
-			"content-type": "application/json",
-			...(options.headers || {}),
-		},
-	});
+	try {
+		await postOtlpRequest(endpoint, signal, body, contentType, options);
+		return "sent";
+	} catch (error) {
+		if (!options.spoolDir) {
+			throw error;
+		}
+
+		const file = await spoolOtlpRequest(options.spoolDir, {
+			endpoint,
+			contentType,
+			body: typeof body === "string" ? new TextEncoder().encode(body) : body,
+		});
+		console.warn(
+			`playwright-opentelemetry could not send ${itemCount} ${signal} to ${endpoint} and spooled them to ${file}: ${error instanceof Error ? error.message : error}`,
+		);
+		return "spooled";
+	}
+}
+
+/**
+ * Resend requests spooled for `options.tracesEndpoint`, oldest first. Stops at
+ * the first failure and leaves the remaining files for the next replay.
+ */
+export async function replaySpooledSpans(
+	options: SendSpansOptions,
+): Promise<void> {
+	await replaySpooledOtlpRequests(options.tracesEndpoint, "spans", options);
+}
+
+/** Resend requests spooled for `endpoint`. Failures are logged, never thrown. */
+export async function replaySpooledOtlpRequests(
+	endpoint: string,
+	signal: OtlpSignal,
+	options: OtlpExportOptions,
+): Promise<void> {
+	if (!options.spoolDir) {
+		return;
+	}
 
-	if (!response.ok) {
-		const error = await response.text();
-		throw new Error(
-			`Failed to send spans: ${response.status} ${response.statusText}, ${error}`,
+	try {
+		const requests = await readSpooledOtlpRequests(options.spoolDir, endpoint);
+		for (const request of requests) {
+			await postOtlpRequest(
+				endpoint,
+				signal,
+				request.body,
+				request.contentType,
+				options,
+			);
+			await removeSpooledOtlpRequest(request.file);
+		}
+	} catch (error) {
+		console.warn(
+			`playwright-opentelemetry could not replay spooled ${signal} for ${endpoint}: ${error instanceof Error ? error.message : error}`,
 		);
 	}
 }
+
+const gzipAsync = promisify(gzip);
+
+// https://opentelemetry.io/docs/specs/otlp/#otlphttp-response
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+type AttemptResult =
+	| { ok: true }
+	| {
+			ok: false;
+			error: unknown;
+			retryable: boolean;
+			retryAfterMillis?: number;
+	  };
+
+async function postOtlpRequest(
+	endpoint: string,
+	signal: OtlpSignal,
+	body: string | Uint8Array,
+	contentType: string,
+	options: OtlpExportOptions,
+): Promise<void> {
+	const maxAttempts = options.retry?.maxAttempts ?? 1;
+	const requestBody =
+		options.compression === "gzip" ? await gzipAsync(body) : body;
+
+	for (let attempt = 1; ; attempt++) {
+		const result = await attemptOtlpRequest(
+			endpoint,
+			signal,
+			requestBody,
+			contentType,
+			options,
+		);
+		if (result.ok) {
+			return;
+		}
+
+		if (!result.retryable || !options.retry || attempt >= maxAttempts) {
+			throw result.error;
+		}
+
+		const delay = getRetryDelayMillis(
+			options.retry,
+			attempt,
+			result.retryAfterMillis,
+		);
+		if (options.debug) {
+			console.log(
+				`Retrying ${signal} to ${endpoint} in ${delay}ms (attempt ${attempt + 1} of ${maxAttempts})`,
+			);
+		}
+		await new Promise((resolve) => setTimeout(resolve, delay));
+	}
+}
+
+async function attemptOtlpRequest(
+	endpoint: string,
+	signal: OtlpSignal,
+	body: string | Uint8Array,
+	contentType: string,
+	options: OtlpExportOptions,
+): Promise<AttemptResult> {
+	let response: Response;
+	try {
+		response = await fetch(endpoint, {
+			method: "POST",
+			body,
+			headers: {
+				"content-type": contentType,
+				...(options.compression === "gzip"
+					? { "content-encoding": "gzip" }
+					: {}),
+				...(options.headers || {}),
+			},
+		});
+	} catch (error) {
+		// Network errors (connection refused, reset, DNS) are transient.
+		return { ok: false, error, retryable: true };
+	}
+
+	if (response.ok) {
+		return { ok: true };
+	}
+
+	const text = await response.text();
+	return {
+		ok: false,
+		error: new Error(
+			`Failed to send ${signal}: ${response.status} ${response.statusText}, ${text}`,
+		),
+		retryable: RETRYABLE_STATUS_CODES.has(response.status),
+		retryAfterMillis:
+			response.status === 429 || response.status === 503
+				? parseRetryAfterMillis(response.headers?.get("retry-after"))
+				: undefined,
+	};
+}
+
+/** Parse a `Retry-After` header given either as delay-seconds or an HTTP date. */
+export function parseRetryAfterMillis(
+	value: string | null | undefined,
+): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+
+	const date = Date.parse(trimmed);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getRetryDelayMillis(
+	retry: SendSpansRetryOptions,
+	attempt: number,
+	retryAfterMillis: number | undefined,
+): number {
+	if (retryAfterMillis !== undefined) {
+		return Math.min(retryAfterMillis, retry.maxBackoffMillis);
+	}
+
+	const backoff = Math.min(
+		retry.initialBackoffMillis * 2 ** (attempt - 1),
+		retry.maxBackoffMillis,
+	);
+	// Jitter so workers that failed together do not retry in lockstep.
+	return Math.round(backoff * (0.5 + Math.random() * 0.5));
+}
@@ -0,0 +1,168 @@
+import {
+	buildOtlpResource,
+	dateToNanoseconds,
+	exportOtlpRequest,
+	OTLP_INSTRUMENTATION_SCOPE,
+	type OtlpExportOptions,
+	PLAYWRIGHT_TESTS_SERVICE_NAME,
+	replaySpooledOtlpRequests,
+	type SendSpansOutcome,
+	type Span,
+	type SpanAttributeValue,
+	toOtlpAttributes,
+} from "./otel";
+import { encodeOtlpLogsRequest } from "./otlp-protobuf";
+
+export type LogRecord = {
+	time: Date;
+	severityText: string;
+	body: string;
+	attributes: Record<string, SpanAttributeValue>;
+	/** Trace and span the record was emitted in, for log/trace correlation. */
+	traceId: string;
+	spanId: string;
+	/** Service name for this record (if different from default). */
+	serviceName?: string;
+};
+
+export type SendLogsOptions = OtlpExportOptions & {
+	logsEndpoint: string;
+};
+
+// https://opentelemetry.io/docs/specs/otel/logs/data-model/#field-severitynumber
+const SEVERITY_NUMBERS: Record<string, number> = {
+	TRACE: 1,
+	DEBUG: 5,
+	INFO: 9,
+	WARN: 13,
+	ERROR: 17,
+	FATAL: 21,
+};
+
+/**
+ * Convert the `log` and `exception` events recorded on spans into log
+ * records. The events stay on the spans; the records point back at them
+ * through their trace and span IDs.
+ */
+export function spanEventsToLogRecords(spans: Span[]): LogRecord[] {
+	const records: LogRecord[] = [];
+
+	for (const span of spans) {
+		for (const event of span.events ?? []) {
+			const eventAttributes = event.attributes ?? {};
+			const base = {
+				time: event.time,
+				traceId: span.traceId,
+				spanId: span.spanId,
+				serviceName: span.serviceName,
+			};
+
+			if (event.name === "log") {
+				const {
+					message,
+					"severity.text": severityText,
+					...attributes
+				} = eventAttributes;
+				records.push({
+					...base,
+					severityText:
+						typeof severityText === "string" ? severityText : "INFO",
+					body: message === undefined ? "" : String(message),
+					attributes,
+				});
+			} else if (event.name === "exception") {
+				const message =
+					eventAttributes["exception.message"] ??
+					eventAttributes["exception.type"];
+				records.push({
+					...base,
+					severityText: "ERROR",
+					body: message === undefined ? "" : String(message),
+					attributes: eventAttributes,
+				});
+			}
+		}
+	}
+
+	return records;
+}
+
+export function buildOtlpLogsRequest(
+	records: LogRecord[],
+	playwrightVersion: string,
+	resourceAttributes: Record<string, SpanAttributeValue> = {},
+) {
+	const recordsByService = new Map<string, LogRecord[]>();
+	for (const record of records) {
+		const serviceName = record.serviceName ?? PLAYWRIGHT_TESTS_SERVICE_NAME;
+		const serviceRecords = recordsByService.get(serviceName);
+		if (serviceRecords) {
+			serviceRecords.push(record);
+		} else {
+			recordsByService.set(serviceName, [record]);
+		}
+	}
+
+	const resourceLogs = [];
+	for (const [serviceName, serviceRecords] of recordsByService) {
+		resourceLogs.push({
+			resource: buildOtlpResource(
+				serviceName,
+				playwrightVersion,
+				resourceAttributes,
+			),
+			scopeLogs: [
+				{
+					scope: OTLP_INSTRUMENTATION_SCOPE,
+					logRecords: serviceRecords.map((record) => ({
+						timeUnixNano: dateToNanoseconds(record.time),
+						observedTimeUnixNano: dateToNanoseconds(record.time),
+						severityNumber: SEVERITY_NUMBERS[record.severityText] ?? 0,
+						severityText: record.severityText,
+						body: { stringValue: record.body },
+						attributes: toOtlpAttributes(record.attributes),
+						droppedAttributesCount: 0,
+						traceId: record.traceId,
+						spanId: record.spanId,
+					})),
+				},
+			],
+		});
+	}
+
+	return { resourceLogs };
+}
+
+export type OtlpLogsRequest = ReturnType<typeof buildOtlpLogsRequest>;
+
+export async function sendLogs(
+	records: LogRecord[],
+	options: SendLogsOptions,
+): Promise<SendSpansOutcome> {
+	if (records.length === 0) {
+		return "sent";
+	}
+
+	const request = buildOtlpLogsRequest(
+		records,
+		options.playwrightVersion,
+		options.resourceAttributes,
+	);
+	return exportOtlpRequest(
+		options.logsEndpoint,
+		"logs",
+		records.length,
+		{
+			json: () => request,
+			protobuf: () => encodeOtlpLogsRequest(request),
+		},
+		options,
+	);
+}
+
+/** Resend log requests spooled for `options.logsEndpoint`. */
+export async function replaySpooledLogs(
+	options: SendLogsOptions,
+): Promise<void> {
+	await replaySpooledOtlpRequests(options.logsEndpoint, "logs", options);
+}
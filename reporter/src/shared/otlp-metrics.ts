@@ -0,0 +1,156 @@
+import {
+	buildOtlpResource,
+	dateToNanoseconds,
+	exportOtlpRequest,
+	OTLP_INSTRUMENTATION_SCOPE,
+	type OtlpExportOptions,
+	PLAYWRIGHT_TESTS_SERVICE_NAME,
+	replaySpooledOtlpRequests,
+	type SendSpansOutcome,
+	type SpanAttributeValue,
+	toOtlpAttributes,
+} from "./otel";
+import { encodeOtlpMetricsRequest } from "./otlp-protobuf";
+
+export type MetricAttributes = Record<string, SpanAttributeValue>;
+
+export type HistogramDataPoint = {
+	attributes: MetricAttributes;
+	count: number;
+	sum: number;
+	min: number;
+	max: number;
+	/** One more entry than the metric's `boundaries`. */
+	bucketCounts: number[];
+};
+
+export type CounterDataPoint = {
+	attributes: MetricAttributes;
+	value: number;
+};
+
+export type Metric = {
+	name: string;
+	description: string;
+	unit: string;
+} & (
+	| {
+			kind: "histogram";
+			boundaries: number[];
+			dataPoints: HistogramDataPoint[];
+	  }
+	| { kind: "counter"; dataPoints: CounterDataPoint[] }
+);
+
+export type SendMetricsOptions = OtlpExportOptions & {
+	metricsEndpoint: string;
+};
+
+/** Start and end of the collection interval all data points cover. */
+export type MetricsInterval = { startTime: Date; endTime: Date };
+
+// https://github.com/open-telemetry/opentelemetry-proto/blob/main/opentelemetry/proto/metrics/v1/metrics.proto
+const AGGREGATION_TEMPORALITY_CUMULATIVE = 2;
+
+export function buildOtlpMetricsRequest(
+	metrics: Metric[],
+	interval: MetricsInterval,
+	playwrightVersion: string,
+	resourceAttributes: Record<string, SpanAttributeValue> = {},
+) {
+	const startTimeUnixNano = dateToNanoseconds(interval.startTime);
+	const timeUnixNano = dateToNanoseconds(interval.endTime);
+
+	return {
+		resourceMetrics: [
+			{
+				resource: buildOtlpResource(
+					PLAYWRIGHT_TESTS_SERVICE_NAME,
+					playwrightVersion,
+					resourceAttributes,
+				),
+				scopeMetrics: [
+					{
+						scope: OTLP_INSTRUMENTATION_SCOPE,
+						metrics: metrics.map((metric) => ({
+							name: metric.name,
+							description: metric.description,
+							unit: metric.unit,
+							...(metric.kind === "histogram"
+								? {
+										histogram: {
+											dataPoints: metric.dataPoints.map((point) => ({
+												attributes: toOtlpAttributes(point.attributes),
+												startTimeUnixNano,
+												timeUnixNano,
+												count: String(point.count),
+												sum: point.sum,
+												bucketCounts: point.bucketCounts.map(String),
+												explicitBounds: metric.boundaries,
+												min: point.min,
+												max: point.max,
+											})),
+											aggregationTemporality:
+												AGGREGATION_TEMPORALITY_CUMULATIVE,
+										},
+									}
+								: {
+										sum: {
+											dataPoints: metric.dataPoints.map((point) => ({
+												attributes: toOtlpAttributes(point.attributes),
+												startTimeUnixNano,
+												timeUnixNano,
+												asInt: String(point.value),
+											})),
+											aggregationTemporality:
+												AGGREGATION_TEMPORALITY_CUMULATIVE,
+											isMonotonic: true,
+										},
+									}),
+						})),
+					},
+				],
+			},
+		],
+	};
+}
+
+export type OtlpMetricsRequest = ReturnType<typeof buildOtlpMetricsRequest>;
+
+export async function sendMetrics(
+	metrics: Metric[],
+	interval: MetricsInterval,
+	options: SendMetricsOptions,
+): Promise<SendSpansOutcome> {
+	const dataPointCount = metrics.reduce(
+		(count, metric) => count + metric.dataPoints.length,
+		0,
+	);
+	if (dataPointCount === 0) {
+		return "sent";
+	}
+
+	const request = buildOtlpMetricsRequest(
+		metrics,
+		interval,
+		options.playwrightVersion,
+		options.resourceAttributes,
+	);
+	return exportOtlpRequest(
+		options.metricsEndpoint,
+		"metrics",
+		dataPointCount,
+		{
+			json: () => request,
+			protobuf: () => encodeOtlpMetricsRequest(request),
+		},
+		options,
+	);
+}
+
+/** Resend metric requests spooled for `options.metricsEndpoint`. */
+export async function replaySpooledMetrics(
+	options: SendMetricsOptions,
+): Promise<void> {
+	await replaySpooledOtlpRequests(options.metricsEndpoint, "metrics", options);
+}
@@ -0,0 +1,362 @@
+import type { OtlpTraceRequest } from "./otel";
+import type { OtlpLogsRequest } from "./otlp-logs";
+import type { OtlpMetricsRequest } from "./otlp-metrics";
+
+// Field numbers follow opentelemetry-proto:
+// opentelemetry/proto/collector/{trace,logs,metrics}/v1/*_service.proto and
+// the trace/logs/metrics/common/resource messages they reference.
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+type OtlpAnyValue = {
+	stringValue?: string;
+	boolValue?: boolean;
+	intValue?: number;
+	doubleValue?: number;
+	arrayValue?: { values: OtlpAnyValue[] };
+};
+type OtlpKeyValue = { key: string; value: OtlpAnyValue };
+type OtlpResourceSpans = OtlpTraceRequest["resourceSpans"][number];
+type OtlpSpan = OtlpResourceSpans["scopeSpans"][number]["spans"][number];
+type OtlpResourceLogs = OtlpLogsRequest["resourceLogs"][number];
+type OtlpLogRecord =
+	OtlpResourceLogs["scopeLogs"][number]["logRecords"][number];
+type OtlpResourceMetrics = OtlpMetricsRequest["resourceMetrics"][number];
+type OtlpMetric =
+	OtlpResourceMetrics["scopeMetrics"][number]["metrics"][number];
+type OtlpScope = { name: string; version: string };
+type OtlpResource = { attributes: OtlpKeyValue[] };
+
+/** Encode an OTLP trace export request as `application/x-protobuf`. */
+export function encodeOtlpTraceRequest(request: OtlpTraceRequest): Uint8Array {
+	const writer = new ProtobufWriter();
+	for (const resourceSpans of request.resourceSpans) {
+		writer.message(1, (w) => writeResourceSpans(w, resourceSpans));
+	}
+	return writer.finish();
+}
+
+/** Encode an OTLP logs export request as `application/x-protobuf`. */
+export function encodeOtlpLogsRequest(request: OtlpLogsRequest): Uint8Array {
+	const writer = new ProtobufWriter();
+	for (const resourceLogs of request.resourceLogs) {
+		writer.message(1, (w) => writeResourceLogs(w, resourceLogs));
+	}
+	return writer.finish();
+}
+
+/** Encode an OTLP metrics export request as `application/x-protobuf`. */
+export function encodeOtlpMetricsRequest(
+	request: OtlpMetricsRequest,
+): Uint8Array {
+	const writer = new ProtobufWriter();
+	for (const resourceMetrics of request.resourceMetrics) {
+		writer.message(1, (w) => writeResourceMetrics(w, resourceMetrics));
+	}
+	return writer.finish();
+}
+
+function writeResource(writer: ProtobufWriter, resource: OtlpResource): void {
+	writer.message(1, (w) => {
+		writeAttributes(w, 1, resource.attributes);
+	});
+}
+
+function writeScope(writer: ProtobufWriter, scope: OtlpScope): void {
+	writer.message(1, (w) => {
+		w.string(1, scope.name);
+		w.string(2, scope.version);
+	});
+}
+
+function writeResourceSpans(
+	writer: ProtobufWriter,
+	resourceSpans: OtlpResourceSpans,
+): void {
+	writeResource(writer, resourceSpans.resource);
+	for (const scopeSpans of resourceSpans.scopeSpans) {
+		writer.message(2, (w) => {
+			writeScope(w, scopeSpans.scope);
+			for (const span of scopeSpans.spans) {
+				w.message(2, (spanWriter) => writeSpan(spanWriter, span));
+			}
+		});
+	}
+}
+
+function writeSpan(writer: ProtobufWriter, span: OtlpSpan): void {
+	writer.bytes(1, hexToBytes(span.traceId));
+	writer.bytes(2, hexToBytes(span.spanId));
+	if (span.traceState) {
+		writer.string(3, span.traceState);
+	}
+	if (span.parentSpanId) {
+		writer.bytes(4, hexToBytes(span.parentSpanId));
+	}
+	writer.string(5, span.name);
+	writer.varint(6, span.kind);
+	writer.fixed64(7, BigInt(span.startTimeUnixNano));
+	writer.fixed64(8, BigInt(span.endTimeUnixNano));
+	writeAttributes(writer, 9, span.attributes);
+	writer.varint(10, span.droppedAttributesCount);
+	for (const event of span.events) {
+		writer.message(11, (w) => {
+			w.fixed64(1, BigInt(event.timeUnixNano));
+			w.string(2, event.name);
+			writeAttributes(w, 3, event.attributes);
+			w.varint(4, event.droppedAttributesCount);
+		});
+	}
+	writer.varint(12, span.droppedEventsCount);
+	for (const link of span.links) {
+		writer.message(13, (w) => {
+			w.bytes(1, hexToBytes(link.traceId));
+			w.bytes(2, hexToBytes(link.spanId));
+			writeAttributes(w, 4, link.attributes);
+			w.varint(5, link.droppedAttributesCount);
+		});
+	}
+	writer.varint(14, span.droppedLinksCount);
+	const status = span.status;
+	if (status) {
+		writer.message(15, (w) => {
+			if (status.message) {
+				w.string(2, status.message);
+			}
+			w.varint(3, status.code);
+		});
+	}
+}
+
+function writeResourceLogs(
+	writer: ProtobufWriter,
+	resourceLogs: OtlpResourceLogs,
+): void {
+	writeResource(writer, resourceLogs.resource);
+	for (const scopeLogs of resourceLogs.scopeLogs) {
+		writer.message(2, (w) => {
+			writeScope(w, scopeLogs.scope);
+			for (const record of scopeLogs.logRecords) {
+				w.message(2, (recordWriter) => writeLogRecord(recordWriter, record));
+			}
+		});
+	}
+}
+
+function writeLogRecord(writer: ProtobufWriter, record: OtlpLogRecord): void {
+	writer.fixed64(1, BigInt(record.timeUnixNano));
+	writer.varint(2, record.severityNumber);
+	writer.string(3, record.severityText);
+	writer.message(5, (body) => writeAnyValue(body, record.body));
+	writeAttributes(writer, 6, record.attributes);
+	writer.varint(7, record.droppedAttributesCount);
+	writer.bytes(9, hexToBytes(record.traceId));
+	writer.bytes(10, hexToBytes(record.spanId));
+	writer.fixed64(11, BigInt(record.observedTimeUnixNano));
+}
+
+function writeResourceMetrics(
+	writer: ProtobufWriter,
+	resourceMetrics: OtlpResourceMetrics,
+): void {
+	writeResource(writer, resourceMetrics.resource);
+	for (const scopeMetrics of resourceMetrics.scopeMetrics) {
+		writer.message(2, (w) => {
+			writeScope(w, scopeMetrics.scope);
+			for (const metric of scopeMetrics.metrics) {
+				w.message(2, (metricWriter) => writeMetric(metricWriter, metric));
+			}
+		});
+	}
+}
+
+function writeMetric(writer: ProtobufWriter, metric: OtlpMetric): void {
+	writer.string(1, metric.name);
+	writer.string(2, metric.description);
+	writer.string(3, metric.unit);
+	if ("sum" in metric) {
+		const sum = metric.sum;
+		writer.message(7, (w) => {
+			for (const point of sum.dataPoints) {
+				w.message(1, (pointWriter) => {
+					pointWriter.fixed64(2, BigInt(point.startTimeUnixNano));
+					pointWriter.fixed64(3, BigInt(point.timeUnixNano));
+					// as_int is a oneof member, so a zero count is still written.
+					pointWriter.fixed64(6, BigInt.asUintN(64, BigInt(point.asInt)), true);
+					writeAttributes(pointWriter, 7, point.attributes);
+				});
+			}
+			w.varint(2, sum.aggregationTemporality);
+			w.varint(3, sum.isMonotonic ? 1 : 0);
+		});
+	}
+	if ("histogram" in metric) {
+		const histogram = metric.histogram;
+		writer.message(9, (w) => {
+			for (const point of histogram.dataPoints) {
+				w.message(1, (pointWriter) => {
+					pointWriter.fixed64(2, BigInt(point.startTimeUnixNano));
+					pointWriter.fixed64(3, BigInt(point.timeUnixNano));
+					pointWriter.fixed64(4, BigInt(point.count));
+					// sum, min and max are proto3 `optional`, so zero is still written.
+					pointWriter.double(5, point.sum, true);
+					pointWriter.packedFixed64(6, point.bucketCounts.map(BigInt));
+					pointWriter.packedDouble(7, point.explicitBounds);
+					writeAttributes(pointWriter, 9, point.attributes);
+					pointWriter.double(11, point.min, true);
+					pointWriter.double(12, point.max, true);
+				});
+			}
+			w.varint(2, histogram.aggregationTemporality);
+		});
+	}
+}
+
+function writeAttributes(
+	writer: ProtobufWriter,
+	field: number,
+	attributes: OtlpKeyValue[],
+): void {
+	for (const attribute of attributes) {
+		writer.message(field, (w) => {
+			w.string(1, attribute.key);
+			w.message(2, (value) => writeAnyValue(value, attribute.value));
+		});
+	}
+}
+
+function writeAnyValue(writer: ProtobufWriter, value: OtlpAnyValue): void {
+	// `value` is a oneof, so the chosen member is written even when it is zero
+	// or empty. Otherwise 0, false and "" would decode as no value at all.
+	if (value.stringValue !== undefined) {
+		writer.string(1, value.stringValue, true);
+	} else if (value.boolValue !== undefined) {
+		writer.varint(2, value.boolValue ? 1 : 0, true);
+	} else if (value.intValue !== undefined) {
+		writer.varint(3, value.intValue, true);
+	} else if (value.doubleValue !== undefined) {
+		writer.double(4, value.doubleValue, true);
+	} else if (value.arrayValue !== undefined) {
+		const values = value.arrayValue.values;
+		writer.message(5, (array) => {
+			for (const item of values) {
+				array.message(1, (w) => writeAnyValue(w, item));
+			}
+		});
+	}
+}
+
+function hexToBytes(hex: string): Uint8Array {
+	return Buffer.from(hex, "hex");
+}
+
+/**
+ * Minimal protobuf writer for the handful of wire types OTLP exports use.
+ * Proto3 default values are skipped like the official encoders do, unless
+ * `keepDefault` is set for proto3 `optional` fields and `oneof` members.
+ */
+class ProtobufWriter {
+	private chunks: Uint8Array[] = [];
+	private length = 0;
+
+	varint(field: number, value: number | bigint, keepDefault = false): void {
+		if ((value === 0 || value === BigInt(0)) && !keepDefault) {
+			return;
+		}
+		this.tag(field, WIRE_VARINT);
+		this.rawVarint(BigInt.asUintN(64, BigInt(value)));
+	}
+
+	fixed64(field: number, value: bigint, keepDefault = false): void {
+		if (value === BigInt(0) && !keepDefault) {
+			return;
+		}
+		this.tag(field, WIRE_FIXED64);
+		const bytes = new Uint8Array(8);
+		new DataView(bytes.buffer).setBigUint64(0, value, true);
+		this.push(bytes);
+	}
+
+	double(field: number, value: number, keepDefault = false): void {
+		if (value === 0 && !keepDefault) {
+			return;
+		}
+		this.tag(field, WIRE_FIXED64);
+		const bytes = new Uint8Array(8);
+		new DataView(bytes.buffer).setFloat64(0, value, true);
+		this.push(bytes);
+	}
+
+	packedFixed64(field: number, values: bigint[]): void {
+		const bytes = new Uint8Array(values.length * 8);
+		const view = new DataView(bytes.buffer);
+		values.forEach((value, index) => {
+			view.setBigUint64(index * 8, value, true);
+		});
+		this.bytes(field, bytes);
+	}
+
+	packedDouble(field: number, values: number[]): void {
+		const bytes = new Uint8Array(values.length * 8);
+		const view = new DataView(bytes.buffer);
+		values.forEach((value, index) => {
+			view.setFloat64(index * 8, value, true);
+		});
+		this.bytes(field, bytes);
+	}
+
+	string(field: number, value: string, keepDefault = false): void {
+		this.bytes(field, new TextEncoder().encode(value), keepDefault);
+	}
+
+	bytes(field: number, value: Uint8Array, keepDefault = false): void {
+		if (value.length === 0 && !keepDefault) {
+			return;
+		}
+		this.tag(field, WIRE_LENGTH_DELIMITED);
+		this.rawVarint(BigInt(value.length));
+		this.push(value);
+	}
+
+	/** Write an embedded message. Empty messages are still written. */
+	message(field: number, write: (writer: ProtobufWriter) => void): void {
+		const child = new ProtobufWriter();
+		write(child);
+		const bytes = child.finish();
+		this.tag(field, WIRE_LENGTH_DELIMITED);
+		this.rawVarint(BigInt(bytes.length));
+		this.push(bytes);
+	}
+
+	finish(): Uint8Array {
+		const result = new Uint8Array(this.length);
+		let offset = 0;
+		for (const chunk of this.chunks) {
+			result.set(chunk, offset);
+			offset += chunk.length;
+		}
+		return result;
+	}
+
+	private tag(field: number, wireType: number): void {
+		this.rawVarint(BigInt((field << 3) | wireType));
+	}
+
+	private rawVarint(value: bigint): void {
+		const bytes: number[] = [];
+		let remaining = value;
+		while (remaining > BigInt(0x7f)) {
+			bytes.push(Number(remaining & BigInt(0x7f)) | 0x80);
+			remaining >>= BigInt(7);
+		}
+		bytes.push(Number(remaining));
+		this.push(Uint8Array.from(bytes));
+	}
+
+	private push(bytes: Uint8Array): void {
+		this.chunks.push(bytes);
+		this.length += bytes.length;
+	}
+}
@@ -0,0 +1,152 @@
+import type {
+	PlaywrightOpentelemetryRedactionConfig,
+	PlaywrightOpentelemetrySpanProcessor,
+} from "./config";
+import type { SpanAttributeValue } from "./otel";
+
+export const DEFAULT_REDACTION_REPLACEMENT = "REDACTED";
+
+const HEADER_ATTRIBUTE_PREFIXES = [
+	"http.request.header.",
+	"http.response.header.",
+];
+
+type Redactor = {
+	/** Replace sensitive parts of a free-form string value. */
+	text(value: string): string;
+	/** Whether an attribute holds a header value that is redacted entirely. */
+	isRedactedHeader(key: string): boolean;
+	replacement: string;
+};
+
+/**
+ * Build the span processor for `redaction` config. It rewrites span, event
+ * and link attributes plus the status message, so it covers every place a
+ * URL, header or log message ends up.
+ */
+export function createRedactionSpanProcessor(
+	config: PlaywrightOpentelemetryRedactionConfig,
+): PlaywrightOpentelemetrySpanProcessor | undefined {
+	const redactor = createRedactor(config);
+	if (!redactor) {
+		return undefined;
+	}
+
+	return (span) => {
+		span.attributes = redactAttributes(span.attributes, redactor);
+		for (const event of span.events ?? []) {
+			if (event.attributes) {
+				event.attributes = redactAttributes(event.attributes, redactor);
+			}
+		}
+		for (const link of span.links ?? []) {
+			if (link.attributes) {
+				link.attributes = redactAttributes(link.attributes, redactor);
+			}
+		}
+		if (span.status?.message) {
+			span.status.message = redactor.text(span.status.message);
+		}
+		return span;
+	};
+}
+
+function createRedactor(
+	config: PlaywrightOpentelemetryRedactionConfig,
+): Redactor | undefined {
+	const replacement = config.replacement ?? DEFAULT_REDACTION_REPLACEMENT;
+	const queryParams = config.queryParams ?? [];
+	const headers = new Set(
+		(config.headers ?? []).map((header) => normalizeHeaderName(header)),
+	);
+	const patterns = (config.patterns ?? []).map(compilePattern);
+
+	if (queryParams.length === 0 && headers.size === 0 && patterns.length === 0) {
+		return undefined;
+	}
+
+	// Matches `name=value` at the start of a query string (`url.query`) or after
+	// `?`, `&` or `;` inside a URL.
+	const queryParamPattern =
+		queryParams.length > 0
+			? new RegExp(
+					`(^|[?&;])(${queryParams.map(escapeRegExp).join("|")})=([^&#;\\s"'<>]*)`,
+					"gi",
+				)
+			: undefined;
+
+	return {
+		replacement,
+		text(value) {
+			let redacted = value;
+			if (queryParamPattern) {
+				redacted = redacted.replace(
+					queryParamPattern,
+					(_match, prefix: string, name: string) =>
+						`${prefix}${name}=${replacement}`,
+				);
+			}
+			for (const pattern of patterns) {
+				redacted = redacted.replace(pattern, () => replacement);
+			}
+			return redacted;
+		},
+		isRedactedHeader(key) {
+			const lowerKey = key.toLowerCase();
+			const prefix = HEADER_ATTRIBUTE_PREFIXES.find((candidate) =>
+				lowerKey.startsWith(candidate),
+			);
+			return (
+				prefix !== undefined &&
+				headers.has(normalizeHeaderName(lowerKey.slice(prefix.length)))
+			);
+		},
+	};
+}
+
+function redactAttributes(
+	attributes: Record<string, SpanAttributeValue>,
+	redactor: Redactor,
+): Record<string, SpanAttributeValue> {
+	const redacted: Record<string, SpanAttributeValue> = {};
+	for (const [key, value] of Object.entries(attributes)) {
+		if (redactor.isRedactedHeader(key)) {
+			redacted[key] = Array.isArray(value)
+				? value.map(() => redactor.replacement)
+				: redactor.replacement;
+		} else if (typeof value === "string") {
+			redacted[key] = redactor.text(value);
+		} else if (Array.isArray(value)) {
+			redacted[key] = value.map((item) => redactor.text(item));
+		} else {
+			redacted[key] = value;
+		}
+	}
+	return redacted;
+}
+
+function compilePattern(pattern: string | RegExp): RegExp {
+	if (pattern instanceof RegExp) {
+		return new RegExp(
+			pattern.source,
+			pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`,
+		);
+	}
+
+	try {
+		return new RegExp(pattern, "g");
+	} catch (error) {
+		throw new Error(
+			`playwrightOpentelemetry.redaction.patterns contains an invalid regular expression ${JSON.stringify(pattern)}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+/** Header attribute keys use lowercase names, sometimes with `_` for `-`. */
+function normalizeHeaderName(name: string): string {
+	return name.toLowerCase().replace(/_/g, "-");
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,142 @@
+import type { SpanAttributeValue } from "./otel";
+
+export const ATTR_SERVICE_NAME = "service.name";
+export const ATTR_CI_PROVIDER = "playwright.ci.provider";
+export const ATTR_CICD_PIPELINE_NAME = "cicd.pipeline.name";
+export const ATTR_CICD_PIPELINE_RUN_ID = "cicd.pipeline.run.id";
+export const ATTR_CICD_PIPELINE_RUN_URL = "cicd.pipeline.run.url.full";
+export const ATTR_CICD_PIPELINE_TASK_RUN_ID = "cicd.pipeline.task.run.id";
+export const ATTR_VCS_REF_HEAD_REVISION = "vcs.ref.head.revision";
+export const ATTR_VCS_REF_HEAD_NAME = "vcs.ref.head.name";
+export const ATTR_VCS_REPOSITORY_URL = "vcs.repository.url.full";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Resolve the resource attributes added to every exported resource, lowest
+ * precedence first: detected CI metadata, `resourceAttributes` config,
+ * `OTEL_RESOURCE_ATTRIBUTES`, then `OTEL_SERVICE_NAME`.
+ */
+export function resolveResourceAttributes(
+	config: Record<string, SpanAttributeValue> | undefined,
+	options: { detectCi: boolean },
+	env: Env = process.env,
+): Record<string, SpanAttributeValue> {
+	const attributes: Record<string, SpanAttributeValue> = {
+		...(options.detectCi ? detectCiResourceAttributes(env) : {}),
+		...config,
+		...parseOtelResourceAttributes(env.OTEL_RESOURCE_ATTRIBUTES),
+	};
+
+	if (env.OTEL_SERVICE_NAME) {
+		attributes[ATTR_SERVICE_NAME] = env.OTEL_SERVICE_NAME;
+	}
+	return attributes;
+}
+
+/** Parse the W3C Baggage-style `key1=value1,key2=value2` resource list. */
+export function parseOtelResourceAttributes(
+	value: string | undefined,
+): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	if (!value) {
+		return attributes;
+	}
+
+	for (const pair of value.split(",")) {
+		const separator = pair.indexOf("=");
+		if (separator <= 0) {
+			continue;
+		}
+
+		const key = pair.slice(0, separator).trim();
+		const rawValue = pair.slice(separator + 1).trim();
+		try {
+			attributes[key] = decodeURIComponent(rawValue);
+		} catch {
+			attributes[key] = rawValue;
+		}
+	}
+	return attributes;
+}
+
+/**
+ * Commit, branch and CI run metadata for GitHub Actions, GitLab CI, CircleCI
+ * and Buildkite. Returns no attributes outside those providers.
+ */
+export function detectCiResourceAttributes(
+	env: Env = process.env,
+): Record<string, SpanAttributeValue> {
+	if (env.GITHUB_ACTIONS === "true") {
+		const repositoryUrl =
+			env.GITHUB_SERVER_URL && env.GITHUB_REPOSITORY
+				? `${env.GITHUB_SERVER_URL}/${env.GITHUB_REPOSITORY}`
+				: undefined;
+		return definedAttributes({
+			[ATTR_CI_PROVIDER]: "github_actions",
+			[ATTR_CICD_PIPELINE_NAME]: env.GITHUB_WORKFLOW,
+			[ATTR_CICD_PIPELINE_RUN_ID]: env.GITHUB_RUN_ID,
+			[ATTR_CICD_PIPELINE_RUN_URL]:
+				repositoryUrl && env.GITHUB_RUN_ID
+					? `${repositoryUrl}/actions/runs/${env.GITHUB_RUN_ID}`
+					: undefined,
+			[ATTR_CICD_PIPELINE_TASK_RUN_ID]: env.GITHUB_JOB,
+			[ATTR_VCS_REF_HEAD_REVISION]: env.GITHUB_SHA,
+			// GITHUB_REF_NAME is "<pr>/merge" for pull requests.
+			[ATTR_VCS_REF_HEAD_NAME]: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+			[ATTR_VCS_REPOSITORY_URL]: repositoryUrl,
+		});
+	}
+
+	if (env.GITLAB_CI === "true") {
+		return definedAttributes({
+			[ATTR_CI_PROVIDER]: "gitlab",
+			[ATTR_CICD_PIPELINE_NAME]: env.CI_PIPELINE_NAME || env.CI_PROJECT_PATH,
+			[ATTR_CICD_PIPELINE_RUN_ID]: env.CI_PIPELINE_ID,
+			[ATTR_CICD_PIPELINE_RUN_URL]: env.CI_PIPELINE_URL,
+			[ATTR_CICD_PIPELINE_TASK_RUN_ID]: env.CI_JOB_ID,
+			[ATTR_VCS_REF_HEAD_REVISION]: env.CI_COMMIT_SHA,
+			[ATTR_VCS_REF_HEAD_NAME]:
+				env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME || env.CI_COMMIT_REF_NAME,
+			[ATTR_VCS_REPOSITORY_URL]: env.CI_PROJECT_URL,
+		});
+	}
+
+	if (env.CIRCLECI === "true") {
+		return definedAttributes({
+			[ATTR_CI_PROVIDER]: "circleci",
+			[ATTR_CICD_PIPELINE_NAME]: env.CIRCLE_PROJECT_REPONAME,
+			[ATTR_CICD_PIPELINE_RUN_ID]: env.CIRCLE_WORKFLOW_ID,
+			[ATTR_CICD_PIPELINE_RUN_URL]: env.CIRCLE_BUILD_URL,
+			[ATTR_CICD_PIPELINE_TASK_RUN_ID]: env.CIRCLE_BUILD_NUM,
+			[ATTR_VCS_REF_HEAD_REVISION]: env.CIRCLE_SHA1,
+			[ATTR_VCS_REF_HEAD_NAME]: env.CIRCLE_BRANCH,
+			[ATTR_VCS_REPOSITORY_URL]: env.CIRCLE_REPOSITORY_URL,
+		});
+	}
+
+	if (env.BUILDKITE === "true") {
+		return definedAttributes({
+			[ATTR_CI_PROVIDER]: "buildkite",
+			[ATTR_CICD_PIPELINE_NAME]: env.BUILDKITE_PIPELINE_SLUG,
+			[ATTR_CICD_PIPELINE_RUN_ID]: env.BUILDKITE_BUILD_ID,
+			[ATTR_CICD_PIPELINE_RUN_URL]: env.BUILDKITE_BUILD_URL,
+			[ATTR_CICD_PIPELINE_TASK_RUN_ID]: env.BUILDKITE_JOB_ID,
+			[ATTR_VCS_REF_HEAD_REVISION]: env.BUILDKITE_COMMIT,
+			[ATTR_VCS_REF_HEAD_NAME]: env.BUILDKITE_BRANCH,
+			[ATTR_VCS_REPOSITORY_URL]: env.BUILDKITE_REPO,
+		});
+	}
+
+	return {};
+}
+
+function definedAttributes(
+	attributes: Record<string, string | undefined>,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(attributes).filter((entry): entry is [string, string] =>
+			Boolean(entry[1]),
+		),
+	);
+}
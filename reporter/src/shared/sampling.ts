@@ -0,0 +1,56 @@
+import type { ResolvedPlaywrightOpentelemetrySamplingConfig } from "./config";
+
+export type SamplingTestInfo = {
+	traceId: string;
+	projectName: string;
+	tags: readonly string[];
+	expectedStatus?: string;
+	retry?: number;
+	status?: string;
+};
+
+// The low 52 bits of the trace ID fit exactly in a double.
+const RATIO_SAMPLING_HEX_DIGITS = 13;
+const RATIO_SAMPLING_RANGE = 2 ** (RATIO_SAMPLING_HEX_DIGITS * 4);
+
+/**
+ * Decide whether a test attempt whose Playwright trace is retained is also
+ * exported. Tag filters apply first, then failed attempts and retries are
+ * kept, then the rest are sampled by trace ID. Sampling by trace ID makes
+ * the fixture and the reporter reach the same decision for an attempt.
+ */
+export function shouldSampleTest(
+	sampling: ResolvedPlaywrightOpentelemetrySamplingConfig,
+	test: SamplingTestInfo,
+): boolean {
+	if (test.tags.some((tag) => sampling.excludeTags.includes(tag))) {
+		return false;
+	}
+	if (
+		sampling.includeTags.length > 0 &&
+		!test.tags.some((tag) => sampling.includeTags.includes(tag))
+	) {
+		return false;
+	}
+
+	// A retry only runs after a failed attempt, so it belongs to a failing or
+	// flaky test.
+	const testFailed =
+		(test.status ?? "passed") !== (test.expectedStatus ?? "passed");
+	if (sampling.keepFailures && (testFailed || (test.retry ?? 0) > 0)) {
+		return true;
+	}
+
+	const ratio =
+		typeof sampling.ratio === "number"
+			? sampling.ratio
+			: (sampling.ratio[test.projectName] ?? 1);
+	if (ratio >= 1) {
+		return true;
+	}
+	const randomness = Number.parseInt(
+		test.traceId.slice(-RATIO_SAMPLING_HEX_DIGITS),
+		16,
+	);
+	return randomness < ratio * RATIO_SAMPLING_RANGE;
+}
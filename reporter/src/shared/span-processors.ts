@@ -0,0 +1,46 @@
+import type { PlaywrightOpentelemetrySpanProcessor } from "./config";
+import type { Span } from "./otel";
+
+/**
+ * Run spans through the configured processors in order. Each processor gets
+ * a copy of the span, so the same input can be processed for several
+ * destinations. Returning `null` drops the span, returning a span replaces
+ * it and returning nothing keeps the (possibly mutated) copy.
+ */
+export function applySpanProcessors(
+	spans: Span[],
+	processors: readonly PlaywrightOpentelemetrySpanProcessor[],
+): Span[] {
+	if (processors.length === 0) {
+		return spans;
+	}
+
+	const processed: Span[] = [];
+	for (const span of spans) {
+		let current: Span | null = structuredClone(span);
+		for (const processor of processors) {
+			let result: Span | null | undefined;
+			try {
+				result = processor(current);
+			} catch (error) {
+				throw new Error(
+					`playwrightOpentelemetry.spanProcessors failed for span "${span.name}": ${error instanceof Error ? error.message : error}`,
+					{ cause: error },
+				);
+			}
+
+			if (result === null) {
+				current = null;
+				break;
+			}
+			if (result !== undefined) {
+				current = result;
+			}
+		}
+
+		if (current) {
+			processed.push(current);
+		}
+	}
+	return processed;
+}
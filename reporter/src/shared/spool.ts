@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const SPOOL_FILE_SUFFIX = ".otlp.json";
+
+export interface SpooledOtlpRequest {
+	endpoint: string;
+	contentType: string;
+	body: Uint8Array;
+}
+
+interface SpoolFile {
+	version: 1;
+	endpoint: string;
+	contentType: string;
+	/** Base64 encoded request body, so binary encodings can be spooled too. */
+	body: string;
+}
+
+/**
+ * Persist an undeliverable OTLP request. Headers are deliberately not stored:
+ * they usually contain credentials and are taken from config on replay.
+ */
+export async function spoolOtlpRequest(
+	spoolDir: string,
+	request: SpooledOtlpRequest,
+): Promise<string> {
+	await fs.mkdir(spoolDir, { recursive: true });
+
+	const file = path.join(
+		spoolDir,
+		`${Date.now()}-${randomUUID()}${SPOOL_FILE_SUFFIX}`,
+	);
+	const contents: SpoolFile = {
+		version: 1,
+		endpoint: request.endpoint,
+		contentType: request.contentType,
+		body: Buffer.from(request.body).toString("base64"),
+	};
+	await fs.writeFile(file, JSON.stringify(contents));
+	return file;
+}
+
+/** Read spooled requests for an endpoint, oldest first. */
+export async function readSpooledOtlpRequests(
+	spoolDir: string,
+	endpoint: string,
+): Promise<Array<SpooledOtlpRequest & { file: string }>> {
+	let filenames: string[];
+	try {
+		filenames = await fs.readdir(spoolDir);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return [];
+		}
+		throw error;
+	}
+
+	const requests: Array<SpooledOtlpRequest & { file: string }> = [];
+	for (const filename of filenames
+		.filter((filename) => filename.endsWith(SPOOL_FILE_SUFFIX))
+		.sort()) {
+		const file = path.join(spoolDir, filename);
+		const contents = JSON.parse(await fs.readFile(file, "utf-8")) as SpoolFile;
+		if (contents.endpoint !== endpoint) {
+			continue;
+		}
+
+		requests.push({
+			file,
+			endpoint: contents.endpoint,
+			contentType: contents.contentType,
+			body: Buffer.from(contents.body, "base64"),
+		});
+	}
+	return requests;
+}
+
+export async function removeSpooledOtlpRequest(file: string): Promise<void> {
+	await fs.rm(file, { force: true });
+}
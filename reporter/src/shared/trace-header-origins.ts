@@ -0,0 +1,56 @@
+import type { PlaywrightOpentelemetryTraceHeaderOriginsConfig } from "./config";
+
+type OriginMatcher = (url: URL) => boolean;
+
+/**
+ * Build the check for `traceHeaderOrigins`. Denied origins never get trace
+ * headers; when `allow` is set, only matching origins do. URLs without an
+ * origin, such as `data:`, only get headers when no allowlist is set.
+ */
+export function createTraceHeaderOriginFilter(
+	config: PlaywrightOpentelemetryTraceHeaderOriginsConfig | undefined,
+): (url: string) => boolean {
+	const allow = (config?.allow ?? []).map(originMatcher);
+	const deny = (config?.deny ?? []).map(originMatcher);
+	if (allow.length === 0 && deny.length === 0) {
+		return () => true;
+	}
+
+	return (url) => {
+		let parsedUrl: URL;
+		try {
+			parsedUrl = new URL(url);
+		} catch {
+			return allow.length === 0;
+		}
+		if (deny.some((matches) => matches(parsedUrl))) {
+			return false;
+		}
+		return allow.length === 0 || allow.some((matches) => matches(parsedUrl));
+	};
+}
+
+/**
+ * Regular expressions are tested against the origin. Strings are globs where
+ * `*` matches within a host or port: `https://*.example.com` matches origins,
+ * and patterns without a scheme such as `localhost:*` match `host:port`.
+ */
+function originMatcher(pattern: string | RegExp): OriginMatcher {
+	if (pattern instanceof RegExp) {
+		return (url) => {
+			pattern.lastIndex = 0;
+			return pattern.test(url.origin);
+		};
+	}
+
+	const glob = new RegExp(
+		`^${pattern
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join("[^/]*")}$`,
+		"i",
+	);
+	return pattern.includes("://")
+		? (url) => glob.test(url.origin)
+		: (url) => glob.test(url.host) || glob.test(url.hostname);
+}
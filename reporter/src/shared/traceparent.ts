@@ -0,0 +1,44 @@
+/** Span context of an incoming W3C trace context, such as the CI job running Playwright. */
+export interface ParentTraceContext {
+	traceId: string;
+	spanId: string;
+	traceState?: string;
+}
+
+// version-traceid-parentid-flags, see https://www.w3.org/TR/trace-context/#traceparent-header
+const TRACEPARENT_PATTERN =
+	/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * Parse a `traceparent` value. Returns undefined for values the W3C spec
+ * says to ignore: version `ff`, extra fields in version `00`, or all-zero
+ * trace and span IDs.
+ */
+export function parseTraceparent(
+	traceparent: string,
+	tracestate?: string,
+): ParentTraceContext | undefined {
+	const match = TRACEPARENT_PATTERN.exec(traceparent.trim());
+	if (!match) {
+		return undefined;
+	}
+
+	const [, version, traceId, spanId, , extra] = match;
+	if (
+		version === "ff" ||
+		(version === "00" && extra !== undefined) ||
+		traceId === INVALID_TRACE_ID ||
+		spanId === INVALID_SPAN_ID
+	) {
+		return undefined;
+	}
+
+	const parent: ParentTraceContext = { traceId, spanId };
+	const traceState = tracestate?.trim();
+	if (traceState) {
+		parent.traceState = traceState;
+	}
+	return parent;
+}
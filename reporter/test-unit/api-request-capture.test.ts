@@ -0,0 +1,216 @@
+import type { APIRequest, APIRequestContext } from "@playwright/test";
+import { describe, expect, it, vi } from "vitest";
+import {
+	instrumentAPIRequestContext,
+	instrumentNewAPIRequestContexts,
+} from "../src/fixture/api-request-capture";
+import type { TestTraceContext } from "../src/fixture/trace-context";
+import {
+	type PlaywrightOpentelemetryConfig,
+	resolvePlaywrightOpentelemetryConfig,
+} from "../src/shared/config";
+import { generateSpanId, generateTraceId } from "../src/shared/otel";
+
+describe("APIRequestContext capture", () => {
+	it("records calls as HTTP client spans and propagates their span", async () => {
+		const traceContext = createTraceContext();
+		const context = createAPIRequestContext();
+		const playwrightFetch = vi.mocked(context.fetch);
+		instrumentAPIRequestContext(context, traceContext, config());
+
+		await context.post("https://api.example.com/users?seed=1", {
+			headers: { authorization: "Bearer token" },
+			data: { name: "Ada" },
+		});
+
+		const [span] = traceContext.spans;
+		expect(span).toEqual(
+			expect.objectContaining({
+				traceId: traceContext.traceId,
+				parentSpanId: traceContext.rootSpanId,
+				name: "HTTP POST",
+				kind: 3,
+				status: { code: 0 },
+				attributes: expect.objectContaining({
+					"http.request.method": "POST",
+					"http.resource.type": "api_request",
+					"url.full": "https://api.example.com/users?seed=1",
+					"server.address": "api.example.com",
+					"http.response.status_code": 201,
+				}),
+			}),
+		);
+		expect(playwrightFetch.mock.calls[0][1]).toEqual({
+			method: "POST",
+			data: { name: "Ada" },
+			headers: {
+				authorization: "Bearer token",
+				traceparent: `00-${traceContext.traceId}-${span.spanId}-01`,
+			},
+		});
+	});
+
+	it("resolves relative URLs from the response and marks failures", async () => {
+		const traceContext = createTraceContext();
+		const context = createAPIRequestContext({
+			status: 500,
+			url: "http://localhost:3000/api/seed",
+		});
+		const playwrightFetch = vi.mocked(context.fetch);
+		instrumentAPIRequestContext(
+			context,
+			traceContext,
+			config({ propagateTraceHeaders: false }),
+		);
+
+		await context.get("/api/seed", { headers: { accept: "text/plain" } });
+
+		expect(traceContext.spans[0]).toMatchObject({
+			status: { code: 2 },
+			attributes: {
+				"url.full": "http://localhost:3000/api/seed",
+				"http.response.status_code": 500,
+				"error.type": "500",
+			},
+		});
+		expect(playwrightFetch.mock.calls[0][1]?.headers).toEqual({
+			accept: "text/plain",
+		});
+	});
+
+	it("checks relative URLs against the origin allowlist after resolving the baseURL", async () => {
+		const traceContext = createTraceContext();
+		const context = createAPIRequestContext({
+			url: "http://localhost:3000/api/seed",
+		});
+		const playwrightFetch = vi.mocked(context.fetch);
+		instrumentAPIRequestContext(
+			context,
+			traceContext,
+			config({ traceHeaderOrigins: { allow: ["localhost:3000"] } }),
+			"http://localhost:3000",
+		);
+
+		await context.get("/api/seed");
+		await context.get("https://cdn.vendor.com/fixture.json");
+
+		expect(playwrightFetch.mock.calls[0][1]?.headers).toEqual({
+			traceparent: `00-${traceContext.traceId}-${traceContext.spans[0]?.spanId}-01`,
+		});
+		expect(playwrightFetch.mock.calls[1][1]?.headers).toBeUndefined();
+	});
+
+	it("resolves relative URLs of the request fixture against the baseURL set after newContext()", async () => {
+		const traceContext = createTraceContext();
+		const created = createAPIRequestContext({
+			url: "http://localhost:3000/api/seed",
+		});
+		const playwrightFetch = vi.mocked(created.fetch);
+		const apiRequest = {
+			newContext: vi.fn(async () => created),
+		} as unknown as APIRequest;
+		const resolvedConfig = config({
+			traceHeaderOrigins: { allow: ["localhost:3000"] },
+		});
+
+		// Same order as a test run: the auto fixture patches newContext(),
+		// Playwright's request fixture calls it without options, then the
+		// request override instruments the context with the project baseURL.
+		const restore = instrumentNewAPIRequestContexts(
+			apiRequest,
+			traceContext,
+			resolvedConfig,
+		);
+		const context = await apiRequest.newContext();
+		instrumentAPIRequestContext(
+			context,
+			traceContext,
+			resolvedConfig,
+			"http://localhost:3000",
+		);
+		await context.get("/api/seed");
+		restore();
+
+		expect(traceContext.spans).toHaveLength(1);
+		expect(playwrightFetch.mock.calls[0][1]?.headers).toEqual({
+			traceparent: `00-${traceContext.traceId}-${traceContext.spans[0]?.spanId}-01`,
+		});
+	});
+
+	it("records rejected calls and rethrows", async () => {
+		const traceContext = createTraceContext();
+		const context = createAPIRequestContext();
+		vi.mocked(context.fetch).mockRejectedValueOnce(
+			new Error("connect ECONNREFUSED"),
+		);
+		instrumentAPIRequestContext(context, traceContext, config());
+
+		await expect(context.delete("http://127.0.0.1:9/users/1")).rejects.toThrow(
+			"connect ECONNREFUSED",
+		);
+		expect(traceContext.spans[0]).toMatchObject({
+			name: "HTTP DELETE",
+			status: { code: 2, message: "connect ECONNREFUSED" },
+			attributes: { "error.type": "Error" },
+		});
+	});
+
+	it("instruments contexts created with playwright.request.newContext() until restored", async () => {
+		const traceContext = createTraceContext();
+		const apiRequest = {
+			newContext: vi.fn(async () => createAPIRequestContext()),
+		} as unknown as APIRequest;
+
+		const restore = instrumentNewAPIRequestContexts(
+			apiRequest,
+			traceContext,
+			config(),
+		);
+		const context = await apiRequest.newContext({
+			baseURL: "https://api.example.com",
+		});
+		await context.get("/health");
+		restore();
+		await (await apiRequest.newContext()).get("https://api.example.com/health");
+
+		expect(traceContext.spans).toHaveLength(1);
+		expect(traceContext.spans[0]?.attributes["url.full"]).toBe(
+			"https://api.example.com/health",
+		);
+	});
+});
+
+function config(overrides: PlaywrightOpentelemetryConfig = {}) {
+	return resolvePlaywrightOpentelemetryConfig(overrides);
+}
+
+// Mirrors Playwright, where every HTTP method calls `this.fetch`.
+function createAPIRequestContext(
+	response: { status?: number; url?: string } = {},
+): APIRequestContext {
+	const context = {
+		fetch: vi.fn(async (urlOrRequest: string) => ({
+			status: () => response.status ?? 201,
+			url: () => response.url ?? urlOrRequest,
+		})),
+	} as unknown as APIRequestContext;
+	for (const method of ["get", "post", "delete"] as const) {
+		Object.assign(context, {
+			[method]: (url: string, options = {}) =>
+				context.fetch(url, { ...options, method: method.toUpperCase() }),
+		});
+	}
+	return context;
+}
+
+function createTraceContext(): TestTraceContext {
+	return {
+		traceId: generateTraceId(),
+		rootSpanId: generateSpanId(),
+		spans: [],
+		requestContexts: new WeakMap(),
+		addSpan(span) {
+			this.spans.push(span);
+		},
+	};
+}
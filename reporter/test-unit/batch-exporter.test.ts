@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	BatchLogExporter,
+	BatchSpanExporter,
+} from "../src/reporter/batch-exporter";
+import type { Span } from "../src/shared/otel";
+import type { LogRecord } from "../src/shared/otlp-logs";
+import {
+	buildConfig,
+	buildTestCase,
+	buildTestResult,
+	PlaywrightOpentelemetryReporter,
+	type Suite,
+} from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+	sendLogs: vi.fn(),
+}));
+
+import { sendLogs, sendSpans } from "../src/reporter/sender";
+
+const options = {
+	tracesEndpoint: "http://localhost:4318/v1/traces",
+	playwrightVersion: "1.56.1",
+};
+
+describe("BatchSpanExporter", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.mocked(sendSpans).mockResolvedValue("sent");
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("sends full batches as soon as they are queued", async () => {
+		const exporter = new BatchSpanExporter(options, {
+			maxExportBatchSize: 2,
+			scheduledDelayMillis: 5000,
+			maxQueueSize: 10,
+		});
+
+		exporter.add(createSpans(5));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(
+			vi.mocked(sendSpans).mock.calls.map(([spans]) => spans.length),
+		).toEqual([2, 2]);
+
+		await exporter.shutdown();
+		expect(
+			vi.mocked(sendSpans).mock.calls.map(([spans]) => spans.length),
+		).toEqual([2, 2, 1]);
+	});
+
+	it("sends partial batches after the scheduled delay", async () => {
+		const exporter = new BatchSpanExporter(options, {
+			maxExportBatchSize: 10,
+			scheduledDelayMillis: 1000,
+			maxQueueSize: 10,
+		});
+
+		exporter.add(createSpans(3));
+		await vi.advanceTimersByTimeAsync(999);
+		expect(sendSpans).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(sendSpans).mock.calls[0]?.[0]).toHaveLength(3);
+
+		await exporter.shutdown();
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+	});
+
+	it("drops spans beyond the queue bound while a send is in flight", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		let resolveSend: () => void = () => {};
+		vi.mocked(sendSpans).mockImplementationOnce(
+			() =>
+				new Promise((resolve) => {
+					resolveSend = () => resolve("sent");
+				}),
+		);
+		const exporter = new BatchSpanExporter(options, {
+			maxExportBatchSize: 2,
+			scheduledDelayMillis: 1000,
+			maxQueueSize: 3,
+		});
+
+		exporter.add(createSpans(2));
+		exporter.add(createSpans(5));
+		resolveSend();
+		await exporter.shutdown();
+
+		expect(
+			vi.mocked(sendSpans).mock.calls.map(([spans]) => spans.length),
+		).toEqual([2, 2, 1]);
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining("dropped 2 spans"),
+		);
+	});
+
+	it("keeps sending after a failed batch and rethrows the failure on shutdown", async () => {
+		vi.mocked(sendSpans).mockRejectedValueOnce(new Error("collector down"));
+		const exporter = new BatchSpanExporter(options, {
+			maxExportBatchSize: 1,
+			scheduledDelayMillis: 1000,
+			maxQueueSize: 10,
+		});
+
+		exporter.add(createSpans(2));
+
+		await expect(exporter.shutdown()).rejects.toThrow("collector down");
+		expect(sendSpans).toHaveBeenCalledTimes(2);
+	});
+
+	it("exports test spans from the reporter before the run ends", async () => {
+		const reporter = new PlaywrightOpentelemetryReporter();
+		const testCase = buildTestCase({ title: "streamed" }, undefined, {
+			otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+			batchExport: { maxExportBatchSize: 1 },
+		});
+		reporter.onBegin(buildConfig(), { allTests: () => [testCase] } as Suite);
+
+		reporter.onTestEnd(
+			testCase,
+			buildTestResult({ steps: [{ title: "step" }] }),
+		);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(sendSpans).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("BatchLogExporter", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(sendLogs).mockResolvedValue("sent");
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("sends log records in batches and drops records beyond the queue bound", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const logsOptions = {
+			logsEndpoint: "http://localhost:4318/v1/logs",
+			playwrightVersion: "1.56.1",
+		};
+		const exporter = new BatchLogExporter(logsOptions, {
+			maxExportBatchSize: 10,
+			scheduledDelayMillis: 1000,
+			maxQueueSize: 3,
+		});
+
+		exporter.add(createLogRecords(2));
+		exporter.add(createLogRecords(2));
+		await exporter.shutdown();
+
+		expect(sendLogs).toHaveBeenCalledTimes(1);
+		expect(sendLogs).toHaveBeenCalledWith(
+			expect.arrayContaining([expect.objectContaining({ body: "line 0" })]),
+			logsOptions,
+		);
+		expect(vi.mocked(sendLogs).mock.calls[0]?.[0]).toHaveLength(3);
+		expect(warn).toHaveBeenCalledWith(
+			expect.stringContaining(
+				"dropped 1 log records for http://localhost:4318/v1/logs",
+			),
+		);
+	});
+});
+
+function createSpans(count: number): Span[] {
+	return Array.from({ length: count }, (_, index) => ({
+		traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+		spanId: index.toString(16).padStart(16, "0"),
+		name: `span ${index}`,
+		startTime: new Date("2025-11-06T10:00:00.000Z"),
+		endTime: new Date("2025-11-06T10:00:01.000Z"),
+		attributes: {},
+	}));
+}
+
+function createLogRecords(count: number): LogRecord[] {
+	return Array.from({ length: count }, (_, index) => ({
+		time: new Date("2025-11-06T10:00:00.000Z"),
+		severityText: "INFO",
+		body: `line ${index}`,
+		attributes: {},
+		traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+		spanId: "a1b2c3d4e5f6a7b8",
+	}));
+}
@@ -1,3 +1,4 @@
+import { EventEmitter } from "node:events";
 import type {
 	ConsoleMessage,
 	Page,
@@ -5,6 +6,7 @@ import type {
 	Response,
 	Route,
 	TestInfo,
+	WebSocket,
 } from "@playwright/test";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
@@ -251,6 +253,132 @@ describe("fixture browser span hierarchy", () => {
 		);
 	});
 
+	it("exports console messages and page errors as OTLP log records", async () => {
+		const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+		global.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		const pageSpanId = generateSpanId();
+		traceContext.addSpan({
+			traceId: traceContext.traceId,
+			spanId: pageSpanId,
+			parentSpanId: traceContext.rootSpanId,
+			name: "browser.page",
+			startTime: new Date("2025-11-06T10:00:00.000Z"),
+			endTime: new Date("2025-11-06T10:00:01.000Z"),
+			attributes: { "browser.resource.type": "page" },
+			events: [
+				{
+					name: "log",
+					time: new Date("2025-11-06T10:00:00.050Z"),
+					attributes: {
+						message: "Slow checkout render",
+						"browser.console.type": "warning",
+						"severity.text": "WARN",
+					},
+				},
+				{
+					name: "exception",
+					time: new Date("2025-11-06T10:00:00.075Z"),
+					attributes: {
+						"exception.type": "TypeError",
+						"exception.message": "Cannot read properties of undefined",
+					},
+				},
+			],
+			status: { code: 0 },
+			serviceName: "playwright-browser",
+		});
+
+		await flushFixtureSpans(
+			traceContext,
+			resolvePlaywrightOpentelemetryConfig({
+				otlpLogsEndpoint: { url: "https://logs.example.com/v1/logs" },
+			}),
+			{ trace: "on", testInfo: createFlushTestInfo({ attach: vi.fn() }) },
+		);
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][0]).toBe("https://logs.example.com/v1/logs");
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(body.resourceLogs[0].resource.attributes).toContainEqual({
+			key: "service.name",
+			value: { stringValue: "playwright-browser" },
+		});
+		expect(body.resourceLogs[0].scopeLogs[0].logRecords).toEqual([
+			expect.objectContaining({
+				timeUnixNano: "1762423200050000000",
+				severityNumber: 13,
+				severityText: "WARN",
+				body: { stringValue: "Slow checkout render" },
+				attributes: [
+					{ key: "browser.console.type", value: { stringValue: "warning" } },
+				],
+				traceId: traceContext.traceId,
+				spanId: pageSpanId,
+			}),
+			expect.objectContaining({
+				severityNumber: 17,
+				severityText: "ERROR",
+				body: { stringValue: "Cannot read properties of undefined" },
+				traceId: traceContext.traceId,
+				spanId: pageSpanId,
+			}),
+		]);
+	});
+
+	it("applies span processors before fixture spans are sent or attached", async () => {
+		const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+		global.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		for (const name of ["browser.page", "browser.fetch"]) {
+			traceContext.addSpan({
+				traceId: traceContext.traceId,
+				spanId: generateSpanId(),
+				parentSpanId: traceContext.rootSpanId,
+				name,
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				endTime: new Date("2025-11-06T10:00:01.000Z"),
+				attributes: {},
+				events: [],
+				status: { code: 0 },
+				serviceName: "playwright-browser",
+			});
+		}
+		const attach = vi.fn<TestInfo["attach"]>(async () => {});
+
+		await flushFixtureSpans(
+			traceContext,
+			resolvePlaywrightOpentelemetryConfig({
+				playwrightTraceApiEndpoint: { url: "https://traces.example.com" },
+				storeTraceZip: true,
+				spanProcessors: [
+					(span) => (span.name === "browser.fetch" ? null : span),
+					(span) => ({
+						...span,
+						attributes: { ...span.attributes, "team.owner": "checkout" },
+					}),
+				],
+			}),
+			{ trace: "on", testInfo: createFlushTestInfo({ attach }) },
+		);
+
+		const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(
+			sent.resourceSpans[0].scopeSpans[0].spans.map(
+				(span: { name: string }) => span.name,
+			),
+		).toEqual(["browser.page"]);
+		const attached = JSON.parse(attach.mock.calls[0]?.[1]?.body as string);
+		expect(attached.spans).toEqual([
+			expect.objectContaining({
+				name: "browser.page",
+				attributes: { "team.owner": "checkout" },
+			}),
+		]);
+		// The in-memory spans are left untouched.
+		expect(traceContext.spans).toHaveLength(2);
+	});
+
 	it("attaches fixture spans when trace ZIP storage is enabled", async () => {
 		const traceContext = createTraceContext();
 		const spanStartTime = new Date("2025-11-06T10:00:00.000Z");
@@ -325,6 +453,188 @@ describe("fixture browser span hierarchy", () => {
 		expect(attach).not.toHaveBeenCalled();
 	});
 
+	it("does not flush spans for tests excluded by sampling", async () => {
+		const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+		global.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		traceContext.addSpan({
+			traceId: traceContext.traceId,
+			spanId: generateSpanId(),
+			parentSpanId: traceContext.rootSpanId,
+			name: "browser.page",
+			startTime: new Date("2025-11-06T10:00:00.000Z"),
+			endTime: new Date("2025-11-06T10:00:01.000Z"),
+			attributes: { "browser.resource.type": "page" },
+			events: [],
+			status: { code: 0 },
+			serviceName: "playwright-browser",
+		});
+		const config = resolvePlaywrightOpentelemetryConfig({
+			playwrightTraceApiEndpoint: { url: "https://traces.example.com" },
+			sampling: { ratio: 0, excludeTags: ["@quarantine"] },
+		});
+
+		await flushFixtureSpans(traceContext, config, {
+			trace: "on",
+			testInfo: createFlushTestInfo({ attach: vi.fn() }),
+		});
+		await flushFixtureSpans(traceContext, config, {
+			trace: "on",
+			testInfo: createFlushTestInfo({
+				attach: vi.fn(),
+				status: "failed",
+				tags: ["@quarantine"],
+			}),
+		});
+		expect(fetchMock).not.toHaveBeenCalled();
+
+		await flushFixtureSpans(traceContext, config, {
+			trace: "on",
+			testInfo: createFlushTestInfo({ attach: vi.fn(), retry: 1 }),
+		});
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("records WebSockets as spans under the active route span until they close", () => {
+		const traceContext = createTraceContext();
+		const tracker = new BrowserPageTracker(traceContext);
+		const page = createPage("about:blank");
+		tracker.registerPage(page);
+		tracker.startDocumentNavigation(
+			createRequest({
+				page,
+				url: "https://example.com/chat",
+				isNavigationRequest: true,
+			}),
+		);
+		tracker.handleFrameNavigated(page, "https://example.com/chat/42");
+		const routeSpan = traceContext.spans[1];
+		const webSocket = createWebSocket("wss://example.com/socket?room=42");
+
+		tracker.trackWebSocket(
+			page,
+			webSocket,
+			new Date("2025-11-06T10:00:00.000Z"),
+		);
+		webSocket.emit("framesent", { payload: "héllo" });
+		webSocket.emit("framereceived", { payload: Buffer.from([1, 2, 3]) });
+		webSocket.emit("close", webSocket);
+
+		const span = traceContext.spans[2];
+		expect(span).toEqual(
+			expect.objectContaining({
+				name: "browser.websocket",
+				kind: 3,
+				parentSpanId: routeSpan?.spanId,
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				status: { code: 0 },
+				attributes: {
+					"browser.resource.type": "websocket",
+					"browser.page.id": "page-1",
+					"url.full": "wss://example.com/socket?room=42",
+					"url.scheme": "wss",
+					"url.path": "/socket",
+					"url.query": "room=42",
+					"server.address": "example.com",
+					"websocket.frames.sent": 1,
+					"websocket.frames.received": 1,
+				},
+			}),
+		);
+		expect(span?.endTime.getTime()).toBeGreaterThan(
+			span?.startTime.getTime() ?? 0,
+		);
+		expect(
+			span?.events.map(({ name, attributes }) => ({ name, attributes })),
+		).toEqual([
+			{
+				name: "websocket.frame.sent",
+				attributes: {
+					"websocket.frame.type": "text",
+					"websocket.frame.size": 6,
+				},
+			},
+			{
+				name: "websocket.frame.received",
+				attributes: {
+					"websocket.frame.type": "binary",
+					"websocket.frame.size": 3,
+				},
+			},
+		]);
+	});
+
+	it("captures truncated text payloads and counts frames past the event limit", () => {
+		const traceContext = createTraceContext();
+		const tracker = new BrowserPageTracker(
+			traceContext,
+			resolvePlaywrightOpentelemetryConfig({
+				webSockets: {
+					capturePayloads: true,
+					maxPayloadLength: 5,
+					maxFrameEvents: 2,
+				},
+			}).webSockets,
+		);
+		const page = createPage("about:blank");
+		tracker.registerPage(page);
+		const webSocket = createWebSocket("wss://example.com/socket");
+
+		tracker.trackWebSocket(page, webSocket);
+		webSocket.emit("framesent", { payload: "ping" });
+		webSocket.emit("framereceived", { payload: '{"type":"pong"}' });
+		webSocket.emit("framereceived", { payload: "dropped" });
+		const endTime = new Date("2025-11-06T10:00:05.000Z");
+		tracker.finishAll(endTime);
+
+		const span = traceContext.spans[0];
+		expect(span?.parentSpanId).toBe(traceContext.rootSpanId);
+		expect(span?.endTime).toEqual(endTime);
+		expect(span?.events.map((event) => event.attributes)).toEqual([
+			{
+				"websocket.frame.type": "text",
+				"websocket.frame.size": 4,
+				"websocket.frame.payload": "ping",
+			},
+			{
+				"websocket.frame.type": "text",
+				"websocket.frame.size": 15,
+				"websocket.frame.payload": '{"typ',
+				"websocket.frame.payload.truncated": true,
+			},
+		]);
+		expect(span?.attributes).toEqual(
+			expect.objectContaining({
+				"websocket.frames.sent": 1,
+				"websocket.frames.received": 2,
+				"websocket.frames.dropped": 1,
+			}),
+		);
+	});
+
+	it("marks WebSocket spans as errors on socket errors", () => {
+		const traceContext = createTraceContext();
+		const tracker = new BrowserPageTracker(traceContext);
+		const page = createPage("about:blank");
+		tracker.registerPage(page);
+		const webSocket = createWebSocket("ws://localhost:3000/live");
+
+		tracker.trackWebSocket(page, webSocket);
+		webSocket.emit("socketerror", "WebSocket connection failed");
+		webSocket.emit("close", webSocket);
+
+		expect(traceContext.spans[0]?.status).toEqual({
+			code: 2,
+			message: "WebSocket connection failed",
+		});
+		expect(traceContext.spans[0]?.events).toEqual([
+			expect.objectContaining({
+				name: "exception",
+				attributes: { "exception.message": "WebSocket connection failed" },
+			}),
+		]);
+	});
+
 	it("does not create a same-document route for hash-only scroll updates", () => {
 		expect(
 			shouldCreateSameDocumentPageSpan(
@@ -383,17 +693,21 @@ function createFlushTestInfo({
 	status = "passed",
 	expectedStatus = "passed",
 	retry = 0,
+	tags = [],
 }: {
 	attach: TestInfo["attach"];
 	status?: NonNullable<TestInfo["status"]>;
 	expectedStatus?: TestInfo["expectedStatus"];
 	retry?: number;
+	tags?: string[];
 }) {
 	return {
 		attach,
 		status,
 		expectedStatus,
 		retry,
+		tags,
+		project: { name: "chromium" } as TestInfo["project"],
 	};
 }
 
@@ -407,6 +721,12 @@ function createPage(initialUrl: string): Page {
 	return page;
 }
 
+function createWebSocket(url: string): WebSocket & EventEmitter {
+	return Object.assign(new EventEmitter(), {
+		url: () => url,
+	}) as unknown as WebSocket & EventEmitter;
+}
+
 function createRequest(options: {
 	page?: Page;
 	url: string;
@@ -1,7 +1,7 @@
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
-	resolvePlaywrightOpentelemetryConfig,
 	type PlaywrightOpentelemetryConfig,
+	resolvePlaywrightOpentelemetryConfig,
 } from "../src/shared/config";
 
 const ENV_KEYS = [
@@ -10,6 +10,22 @@ const ENV_KEYS = [
 	"PLAYWRIGHT_TRACE_API_ENDPOINT",
 	"PLAYWRIGHT_TRACE_API_HEADERS",
 	"PLAYWRIGHT_OPENTELEMETRY_DEBUG",
+	"OTEL_BSP_MAX_EXPORT_BATCH_SIZE",
+	"OTEL_BSP_SCHEDULE_DELAY",
+	"OTEL_BSP_MAX_QUEUE_SIZE",
+	"PLAYWRIGHT_OPENTELEMETRY_SPOOL_DIR",
+	"OTEL_EXPORTER_OTLP_PROTOCOL",
+	"OTEL_EXPORTER_OTLP_COMPRESSION",
+	"OTEL_EXPORTER_OTLP_LOGS_ENDPOINT",
+	"OTEL_EXPORTER_OTLP_LOGS_HEADERS",
+	"OTEL_EXPORTER_OTLP_LOGS_PROTOCOL",
+	"OTEL_EXPORTER_OTLP_LOGS_COMPRESSION",
+	"OTEL_EXPORTER_OTLP_METRICS_ENDPOINT",
+	"OTEL_EXPORTER_OTLP_METRICS_HEADERS",
+	"OTEL_EXPORTER_OTLP_METRICS_PROTOCOL",
+	"OTEL_EXPORTER_OTLP_METRICS_COMPRESSION",
+	"TRACEPARENT",
+	"TRACESTATE",
 ] as const;
 
 const DESTINATION_CONFIGS = [
@@ -21,6 +37,14 @@ const DESTINATION_CONFIGS = [
 		"trace API endpoint",
 		{ playwrightTraceApiEndpoint: { url: "https://traces.example.com" } },
 	],
+	[
+		"OTLP logs endpoint",
+		{ otlpLogsEndpoint: { url: "http://localhost:4318/v1/logs" } },
+	],
+	[
+		"OTLP metrics endpoint",
+		{ otlpMetricsEndpoint: { url: "http://localhost:4318/v1/metrics" } },
+	],
 	["trace ZIP storage", { storeTraceZip: true }],
 ] satisfies Array<[string, PlaywrightOpentelemetryConfig]>;
 
@@ -67,6 +91,142 @@ describe("resolvePlaywrightOpentelemetryConfig", () => {
 		});
 	});
 
+	it("defaults batch export settings", () => {
+		expect(resolvePlaywrightOpentelemetryConfig(undefined)).toMatchObject({
+			batchExport: {
+				maxExportBatchSize: 512,
+				scheduledDelayMillis: 5000,
+				maxQueueSize: 2048,
+			},
+		});
+	});
+
+	it("uses OTEL_BSP_* environment variables before batch export config", () => {
+		process.env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE = "64";
+		process.env.OTEL_BSP_SCHEDULE_DELAY = "250";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig({
+				batchExport: { maxExportBatchSize: 128, maxQueueSize: 4096 },
+			}),
+		).toMatchObject({
+			batchExport: {
+				maxExportBatchSize: 64,
+				scheduledDelayMillis: 250,
+				maxQueueSize: 4096,
+			},
+		});
+	});
+
+	it("rejects invalid batch export settings", () => {
+		process.env.OTEL_BSP_MAX_QUEUE_SIZE = "lots";
+
+		expect(() => resolvePlaywrightOpentelemetryConfig(undefined)).toThrowError(
+			'OTEL_BSP_MAX_QUEUE_SIZE must be a positive integer, got "lots".',
+		);
+	});
+
+	it("defaults export retries and leaves spooling disabled", () => {
+		expect(resolvePlaywrightOpentelemetryConfig(undefined)).toMatchObject({
+			exportRetry: {
+				maxAttempts: 5,
+				initialBackoffMillis: 1000,
+				maxBackoffMillis: 30000,
+			},
+			spoolDir: undefined,
+		});
+	});
+
+	it("rejects invalid export retry settings", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				exportRetry: { maxAttempts: 0 },
+			}),
+		).toThrowError(
+			"playwrightOpentelemetry.exportRetry.maxAttempts must be a positive integer, got 0.",
+		);
+	});
+
+	it("uses PLAYWRIGHT_OPENTELEMETRY_SPOOL_DIR before spoolDir config", () => {
+		process.env.PLAYWRIGHT_OPENTELEMETRY_SPOOL_DIR = "/tmp/ci-spool";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig({ spoolDir: "otel-spool" }),
+		).toMatchObject({ spoolDir: "/tmp/ci-spool" });
+	});
+
+	it("defaults to W3C trace context propagation and rejects unknown propagators", () => {
+		expect(resolvePlaywrightOpentelemetryConfig({}).propagators).toEqual([
+			"tracecontext",
+		]);
+		expect(
+			resolvePlaywrightOpentelemetryConfig({
+				propagators: ["b3", "xray", "b3"],
+			}).propagators,
+		).toEqual(["b3", "xray"]);
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				propagators: ["ottrace" as "b3"],
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry.propagators must only contain "tracecontext", "b3", "b3multi", "jaeger", "xray", got "ottrace".',
+		);
+	});
+
+	it("uses TRACEPARENT and TRACESTATE before traceparent config", () => {
+		const traceparent =
+			"00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig({ traceparent, tracestate: "a=1" })
+				.parentTraceContext,
+		).toEqual({
+			traceId: "0af7651916cd43dd8448eb211c80319c",
+			spanId: "b7ad6b7169203331",
+			traceState: "a=1",
+		});
+
+		process.env.TRACEPARENT =
+			"00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00";
+		process.env.TRACESTATE = "ci=job";
+		expect(
+			resolvePlaywrightOpentelemetryConfig({ traceparent, tracestate: "a=1" })
+				.parentTraceContext,
+		).toEqual({
+			traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+			spanId: "00f067aa0ba902b7",
+			traceState: "ci=job",
+		});
+	});
+
+	it("rejects an invalid traceparent option", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				traceparent: "00-00000000000000000000000000000000-b7ad6b7169203331-01",
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry.traceparent must be a W3C traceparent such as "00-<trace-id>-<span-id>-01", got "00-00000000000000000000000000000000-b7ad6b7169203331-01".',
+		);
+	});
+
+	it("ignores an invalid TRACEPARENT with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		process.env.TRACEPARENT =
+			"ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig({}).parentTraceContext,
+		).toBeUndefined();
+		resolvePlaywrightOpentelemetryConfig({});
+
+		expect(warn.mock.calls).toEqual([
+			[
+				'playwright-opentelemetry ignores TRACEPARENT="ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01", because it is not a W3C traceparent such as "00-<trace-id>-<span-id>-01".',
+			],
+		]);
+		warn.mockRestore();
+	});
+
 	it("preserves a Playwright-style trace override", () => {
 		expect(
 			resolvePlaywrightOpentelemetryConfig({
@@ -193,6 +353,128 @@ describe("resolvePlaywrightOpentelemetryConfig", () => {
 		);
 	});
 
+	it("resolves OTLP protocols per destination and from OTEL_EXPORTER_OTLP_PROTOCOL", () => {
+		const config: PlaywrightOpentelemetryConfig = {
+			otlpEndpoint: {
+				url: "https://primary.example.com/v1/traces",
+				protocol: "http/protobuf",
+			},
+			otlpEndpoints: [{ url: "https://secondary.example.com/v1/traces" }],
+			playwrightTraceApiEndpoint: {
+				url: "https://trace.example.com",
+				protocol: "http/protobuf",
+			},
+		};
+
+		expect(resolvePlaywrightOpentelemetryConfig(config)).toMatchObject({
+			otlpDestinations: [
+				{
+					url: "https://primary.example.com/v1/traces",
+					protocol: "http/protobuf",
+				},
+				{ url: "https://secondary.example.com/v1/traces" },
+			],
+			playwrightTraceApiDestinations: [
+				{ url: "https://trace.example.com", headers: {} },
+			],
+		});
+		expect(
+			resolvePlaywrightOpentelemetryConfig(config)
+				.playwrightTraceApiDestinations[0],
+		).not.toHaveProperty("protocol");
+
+		// The environment only fills in destinations without a protocol.
+		process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "http/json";
+		expect(
+			resolvePlaywrightOpentelemetryConfig(config).otlpDestinations.map(
+				(destination) => destination.protocol,
+			),
+		).toEqual(["http/protobuf", "http/json"]);
+	});
+
+	it("ignores unsupported OTLP environment protocols and compression with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		process.env.OTEL_EXPORTER_OTLP_ENDPOINT = "http://localhost:4317";
+		process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "grpc";
+		process.env.OTEL_EXPORTER_OTLP_COMPRESSION = "zstd";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig(undefined).otlpDestinations,
+		).toEqual([{ url: "http://localhost:4317", headers: {} }]);
+		resolvePlaywrightOpentelemetryConfig(undefined);
+
+		expect(warn.mock.calls).toEqual([
+			[
+				'playwright-opentelemetry ignores OTEL_EXPORTER_OTLP_PROTOCOL="grpc" and uses its default, because it only supports "http/json" or "http/protobuf".',
+			],
+			[
+				'playwright-opentelemetry ignores OTEL_EXPORTER_OTLP_COMPRESSION="zstd" and uses its default, because it only supports "gzip" or "none".',
+			],
+		]);
+		warn.mockRestore();
+	});
+
+	it("rejects unsupported protocols set on a destination", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				otlpEndpoint: {
+					url: "http://localhost:4317",
+					protocol: "grpc" as "http/json",
+				},
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry destination protocol must be "http/json" or "http/protobuf", got "grpc".',
+		);
+	});
+
+	it("resolves compression per destination and from OTEL_EXPORTER_OTLP_COMPRESSION", () => {
+		const config: PlaywrightOpentelemetryConfig = {
+			otlpEndpoint: { url: "https://primary.example.com/v1/traces" },
+			otlpEndpoints: [
+				{
+					url: "https://secondary.example.com/v1/traces",
+					compression: "gzip",
+				},
+			],
+			playwrightTraceApiEndpoint: {
+				url: "https://trace.example.com",
+				compression: "gzip",
+			},
+		};
+
+		expect(resolvePlaywrightOpentelemetryConfig(config)).toMatchObject({
+			otlpDestinations: [
+				{ url: "https://primary.example.com/v1/traces" },
+				{ url: "https://secondary.example.com/v1/traces", compression: "gzip" },
+			],
+			playwrightTraceApiDestinations: [
+				{ url: "https://trace.example.com", compression: "gzip" },
+			],
+		});
+
+		process.env.OTEL_EXPORTER_OTLP_COMPRESSION = "none";
+		const resolved = resolvePlaywrightOpentelemetryConfig(config);
+		expect(
+			resolved.otlpDestinations.map((destination) => destination.compression),
+		).toEqual(["none", "gzip"]);
+		expect(resolved.playwrightTraceApiDestinations[0]?.compression).toBe(
+			"gzip",
+		);
+	});
+
+	it("rejects unsupported compression", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				otlpEndpoint: {
+					url: "https://primary.example.com/v1/traces",
+					compression: "zstd" as "gzip",
+				},
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry destination compression must be "gzip" or "none", got "zstd".',
+		);
+	});
+
 	it("uses plural destinations when singular destinations are absent", () => {
 		expect(
 			resolvePlaywrightOpentelemetryConfig({
@@ -229,6 +511,89 @@ describe("resolvePlaywrightOpentelemetryConfig", () => {
 		});
 	});
 
+	it("resolves OTLP logs destinations from config and OTEL_EXPORTER_OTLP_LOGS_*", () => {
+		const config: PlaywrightOpentelemetryConfig = {
+			otlpEndpoint: { url: "https://otlp.example.com/v1/traces" },
+			otlpLogsEndpoint: {
+				url: "https://config-logs.example.com/v1/logs",
+				headers: { "x-config": "1" },
+			},
+			otlpLogsEndpoints: [
+				{
+					url: "https://secondary-logs.example.com/v1/logs",
+					protocol: "http/protobuf",
+				},
+			],
+		};
+
+		expect(resolvePlaywrightOpentelemetryConfig(config)).toMatchObject({
+			otlpDestinations: [{ url: "https://otlp.example.com/v1/traces" }],
+			otlpLogsDestinations: [
+				{
+					url: "https://config-logs.example.com/v1/logs",
+					headers: { "x-config": "1" },
+				},
+				{
+					url: "https://secondary-logs.example.com/v1/logs",
+					protocol: "http/protobuf",
+				},
+			],
+		});
+
+		process.env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT =
+			"https://env-logs.example.com/v1/logs";
+		process.env.OTEL_EXPORTER_OTLP_LOGS_HEADERS = "x-env=1";
+		process.env.OTEL_EXPORTER_OTLP_LOGS_COMPRESSION = "gzip";
+		// Trace settings do not apply to the logs pipeline.
+		process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "http/protobuf";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig(config).otlpLogsDestinations,
+		).toEqual([
+			{
+				url: "https://env-logs.example.com/v1/logs",
+				headers: { "x-env": "1" },
+				compression: "gzip",
+			},
+			{
+				url: "https://secondary-logs.example.com/v1/logs",
+				headers: {},
+				protocol: "http/protobuf",
+				compression: "gzip",
+			},
+		]);
+	});
+
+	it("resolves OTLP metrics destinations from config and OTEL_EXPORTER_OTLP_METRICS_*", () => {
+		const config: PlaywrightOpentelemetryConfig = {
+			otlpMetricsEndpoint: {
+				url: "https://config-metrics.example.com/v1/metrics",
+			},
+			otlpMetricsEndpoints: [
+				{ url: "https://secondary-metrics.example.com/v1/metrics" },
+			],
+		};
+		process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT =
+			"https://env-metrics.example.com/v1/metrics";
+		process.env.OTEL_EXPORTER_OTLP_METRICS_HEADERS = "x-env=1";
+		process.env.OTEL_EXPORTER_OTLP_METRICS_PROTOCOL = "http/protobuf";
+
+		expect(
+			resolvePlaywrightOpentelemetryConfig(config).otlpMetricsDestinations,
+		).toEqual([
+			{
+				url: "https://env-metrics.example.com/v1/metrics",
+				headers: { "x-env": "1" },
+				protocol: "http/protobuf",
+			},
+			{
+				url: "https://secondary-metrics.example.com/v1/metrics",
+				headers: {},
+				protocol: "http/protobuf",
+			},
+		]);
+	});
+
 	it("uses OTLP environment endpoint and headers before config singular destination while preserving plural destinations", () => {
 		process.env.OTEL_EXPORTER_OTLP_ENDPOINT =
 			"https://env-otlp.example.com/v1/traces";
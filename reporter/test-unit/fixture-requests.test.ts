@@ -6,6 +6,7 @@ import {
 } from "../src/fixture/network-propagator";
 import {
 	detectResourceType,
+	fixtureCaptureRequestFailure,
 	fixtureCaptureRequestResponse,
 } from "../src/fixture/request-response-capture";
 import type { TestTraceContext } from "../src/fixture/trace-context";
@@ -64,6 +65,73 @@ describe("fixture request/response capture", () => {
 		]);
 	});
 
+	it("records failed requests as error spans with the propagated span ID", async () => {
+		const traceContext = createTraceContext();
+		const request = createFailedRequest(
+			"https://api.example.com/orders.json",
+			"net::ERR_CONNECTION_REFUSED",
+		);
+		const route = createRoute();
+		const spanId = storeRequestTraceContext({
+			request,
+			traceContext,
+			parentSpanId: traceContext.rootSpanId,
+			routeAssociation: "root",
+		});
+		await propagateRouteTraceHeaders({
+			route,
+			request,
+			traceId: traceContext.traceId,
+			spanId,
+		});
+
+		fixtureCaptureRequestFailure({
+			request,
+			traceContext,
+			failedAt: new Date("2025-11-06T10:00:00.050Z"),
+		});
+
+		expect(route.fallbackOptions?.headers?.traceparent).toBe(
+			`00-${traceContext.traceId}-${spanId}-01`,
+		);
+		expect(traceContext.spans).toEqual([
+			expect.objectContaining({
+				traceId: traceContext.traceId,
+				spanId,
+				parentSpanId: traceContext.rootSpanId,
+				name: "HTTP GET",
+				kind: 3,
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				endTime: new Date("2025-11-06T10:00:00.050Z"),
+				status: { code: 2, message: "net::ERR_CONNECTION_REFUSED" },
+				attributes: {
+					"http.request.method": "GET",
+					"url.full": "https://api.example.com/orders.json",
+					"url.path": "/orders.json",
+					"server.address": "api.example.com",
+					"server.port": 443,
+					"http.resource.type": "fetch",
+					"browser.request.route_association": "root",
+					"error.type": "net::ERR_CONNECTION_REFUSED",
+				},
+			}),
+		]);
+	});
+
+	it("skips failed requests without propagated in-memory context", () => {
+		const traceContext = createTraceContext();
+
+		fixtureCaptureRequestFailure({
+			request: createFailedRequest(
+				"https://example.com/app.js",
+				"net::ERR_ABORTED",
+			),
+			traceContext,
+		});
+
+		expect(traceContext.spans).toEqual([]);
+	});
+
 	it("propagates traceparent headers by default", async () => {
 		const traceContext = createTraceContext();
 		const request = createRequest("https://api.example.com/users", {
@@ -92,6 +160,62 @@ describe("fixture request/response capture", () => {
 		});
 	});
 
+	it("adds propagation headers after baggage the page already sends", async () => {
+		const traceContext = createTraceContext();
+		const request = createRequest("https://api.example.com/users", {
+			Baggage: "session=abc",
+			tracestate: "page=1",
+		});
+		const route = createRoute();
+
+		await propagateRouteTraceHeaders({
+			route,
+			request,
+			traceId: traceContext.traceId,
+			spanId: "b7ad6b7169203331",
+			propagationHeaders: {
+				baggage: "playwright.test.id=abc-123",
+				tracestate: "ci=job",
+			},
+		});
+
+		expect(route.fallbackOptions?.headers).toEqual({
+			traceparent: `00-${traceContext.traceId}-b7ad6b7169203331-01`,
+			baggage: "session=abc,playwright.test.id=abc-123",
+			tracestate: "ci=job",
+		});
+	});
+
+	it("injects the header formats of the configured propagators", async () => {
+		const request = createRequest("https://legacy.example.com/orders", {
+			"X-B3-Sampled": "0",
+		});
+		const route = createRoute();
+
+		await propagateRouteTraceHeaders({
+			route,
+			request,
+			traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+			spanId: "00f067aa0ba902b7",
+			propagators: ["b3", "b3multi", "jaeger", "xray"],
+			propagationHeaders: {
+				baggage: "playwright.test.id=abc-123",
+				tracestate: "ci=job",
+			},
+		});
+
+		expect(route.fallbackOptions?.headers).toEqual({
+			b3: "4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-1",
+			"x-b3-traceid": "4bf92f3577b34da6a3ce929d0e0e4736",
+			"x-b3-spanid": "00f067aa0ba902b7",
+			"x-b3-sampled": "1",
+			"uber-trace-id": "4bf92f3577b34da6a3ce929d0e0e4736:00f067aa0ba902b7:0:1",
+			"x-amzn-trace-id":
+				"Root=1-4bf92f35-77b34da6a3ce929d0e0e4736;Parent=00f067aa0ba902b7;Sampled=1",
+			baggage: "playwright.test.id=abc-123",
+		});
+	});
+
 	it("can disable traceparent propagation while still capturing request spans", async () => {
 		const traceContext = createTraceContext();
 		const request = createRequest("https://api.example.com/users");
@@ -176,6 +300,15 @@ function createRequest(
 	} as unknown as Request;
 }
 
+function createFailedRequest(url: string, errorText: string): Request {
+	const request = createRequest(url);
+	const timing = request.timing();
+	return Object.assign(request, {
+		failure: () => ({ errorText }),
+		timing: () => ({ ...timing, responseStart: -1, responseEnd: -1 }),
+	});
+}
+
 function createRoute(): Route & {
 	fallbackOptions?: { headers?: Record<string, string> };
 } {
@@ -0,0 +1,293 @@
+import type { Request, Response } from "@playwright/test";
+import { describe, expect, it } from "vitest";
+import {
+	fixtureCaptureRequestFailure,
+	fixtureCaptureRequestResponse,
+} from "../src/fixture/request-response-capture";
+import type { TestTraceContext } from "../src/fixture/trace-context";
+import {
+	type PlaywrightOpentelemetryConfig,
+	resolvePlaywrightOpentelemetryConfig,
+} from "../src/shared/config";
+import { generateSpanId, generateTraceId } from "../src/shared/otel";
+import { applySpanProcessors } from "../src/shared/span-processors";
+
+describe("fixture network capture", () => {
+	it("records only the configured headers as string arrays", async () => {
+		const traceContext = createTraceContext();
+		const request = createRequest({
+			headers: {
+				accept: "application/json",
+				authorization: "Bearer secret",
+				"x-request-id": "req-1",
+			},
+		});
+
+		await capture(traceContext, request, createResponse(), {
+			requestHeaders: ["X-Request-Id", "Authorization"],
+			responseHeaders: ["set-cookie"],
+		});
+
+		const span = traceContext.spans[0];
+		expect(span?.attributes).toEqual(
+			expect.objectContaining({
+				"http.request.header.authorization": ["Bearer secret"],
+				"http.request.header.x-request-id": ["req-1"],
+				"http.response.header.set-cookie": ["a=1", "b=2"],
+			}),
+		);
+		expect(span?.attributes).not.toHaveProperty("http.request.header.accept");
+		expect(span?.events).toEqual([]);
+	});
+
+	it("records fetch and XHR bodies as span events with a size cap", async () => {
+		const traceContext = createTraceContext();
+		const request = createRequest({
+			headers: { "content-type": "application/json; charset=utf-8" },
+			postData: '{"sku":"abc-123","quantity":2}',
+		});
+
+		await capture(
+			traceContext,
+			request,
+			createResponse({ body: '{"error":"out of stock"}' }),
+			{ captureBodies: true, maxBodyLength: 10 },
+		);
+
+		expect(traceContext.spans[0]?.events).toEqual([
+			{
+				name: "http.request.body",
+				time: new Date("2025-11-06T10:00:00.000Z"),
+				attributes: {
+					"http.request.body.content": '{"sku":"ab',
+					"http.request.body.size": 30,
+					"http.request.body.truncated": true,
+				},
+			},
+			{
+				name: "http.response.body",
+				time: new Date("2025-11-06T10:00:00.020Z"),
+				attributes: {
+					"http.response.body.content": '{"error":"',
+					"http.response.body.size": 24,
+					"http.response.body.truncated": true,
+				},
+			},
+		]);
+	});
+
+	it("skips bodies of other resource types and content types", async () => {
+		const traceContext = createTraceContext();
+
+		await capture(
+			traceContext,
+			createRequest({ resourceType: "document" }),
+			createResponse({ contentType: "text/html", body: "<html></html>" }),
+			{ captureBodies: true },
+		);
+		await capture(
+			traceContext,
+			createRequest(),
+			createResponse({ contentType: "image/png", body: "png" }),
+			{ captureBodies: true },
+		);
+		await capture(
+			traceContext,
+			createRequest(),
+			createResponse({
+				contentType: "application/vnd.api+json",
+				body: "{}",
+			}),
+			{ captureBodies: true, bodyContentTypes: ["application/json"] },
+		);
+
+		expect(traceContext.spans.map((span) => span.events)).toEqual([[], [], []]);
+	});
+
+	it("skips response bodies that can no longer be read", async () => {
+		const traceContext = createTraceContext();
+
+		await capture(
+			traceContext,
+			createRequest(),
+			createResponse({ body: new Error("Target page has been closed") }),
+			{ captureBodies: true },
+		);
+
+		expect(traceContext.spans[0]?.events).toEqual([]);
+	});
+
+	it("records request headers and bodies on failed requests", () => {
+		const traceContext = createTraceContext();
+		const request = createRequest({
+			headers: {
+				"content-type": "text/plain",
+				"x-request-id": "req-2",
+			},
+			postData: "ping",
+		});
+		storeContext(traceContext, request);
+
+		fixtureCaptureRequestFailure({
+			request,
+			traceContext,
+			networkCapture: resolveNetworkCapture({
+				requestHeaders: ["x-request-id"],
+				captureBodies: true,
+			}),
+		});
+
+		expect(traceContext.spans[0]).toEqual(
+			expect.objectContaining({
+				attributes: expect.objectContaining({
+					"http.request.header.x-request-id": ["req-2"],
+					"error.type": "net::ERR_FAILED",
+				}),
+				events: [
+					expect.objectContaining({
+						name: "http.request.body",
+						attributes: {
+							"http.request.body.content": "ping",
+							"http.request.body.size": 4,
+						},
+					}),
+				],
+			}),
+		);
+	});
+
+	it("redacts captured headers and bodies before export", async () => {
+		const traceContext = createTraceContext();
+		const request = createRequest({
+			headers: {
+				"content-type": "application/json",
+				authorization: "Bearer secret",
+			},
+			postData: '{"password":"hunter2"}',
+		});
+		const config = resolvePlaywrightOpentelemetryConfig({
+			networkCapture: {
+				requestHeaders: ["authorization"],
+				captureBodies: true,
+			},
+			redaction: {
+				headers: ["authorization"],
+				patterns: ['"password":"[^"]*"'],
+			},
+		});
+
+		await capture(
+			traceContext,
+			request,
+			createResponse(),
+			config.networkCapture,
+		);
+		const [span] = applySpanProcessors(
+			traceContext.spans,
+			config.spanProcessors,
+		);
+
+		expect(span?.attributes["http.request.header.authorization"]).toEqual([
+			"REDACTED",
+		]);
+		expect(span?.events?.[0]?.attributes).toEqual(
+			expect.objectContaining({ "http.request.body.content": "{REDACTED}" }),
+		);
+	});
+});
+
+type NetworkCaptureConfig = NonNullable<
+	PlaywrightOpentelemetryConfig["networkCapture"]
+>;
+
+async function capture(
+	traceContext: TestTraceContext,
+	request: Request,
+	response: Response,
+	networkCapture: NetworkCaptureConfig,
+): Promise<void> {
+	storeContext(traceContext, request);
+	await fixtureCaptureRequestResponse({
+		request,
+		response,
+		traceContext,
+		networkCapture: resolveNetworkCapture(networkCapture),
+	});
+}
+
+function resolveNetworkCapture(networkCapture: NetworkCaptureConfig) {
+	return resolvePlaywrightOpentelemetryConfig({ networkCapture })
+		.networkCapture;
+}
+
+function storeContext(traceContext: TestTraceContext, request: Request): void {
+	traceContext.requestContexts.set(request, {
+		traceId: traceContext.traceId,
+		spanId: generateSpanId(),
+		parentSpanId: traceContext.rootSpanId,
+		routeAssociation: "root",
+	});
+}
+
+function createTraceContext(): TestTraceContext {
+	return {
+		traceId: generateTraceId(),
+		rootSpanId: generateSpanId(),
+		spans: [],
+		requestContexts: new WeakMap(),
+		addSpan(span) {
+			this.spans.push(span);
+		},
+	};
+}
+
+function createRequest({
+	headers = {},
+	postData,
+	resourceType = "fetch",
+}: {
+	headers?: Record<string, string>;
+	postData?: string;
+	resourceType?: string;
+} = {}): Request {
+	return {
+		url: () => "https://api.example.com/cart",
+		method: () => (postData ? "POST" : "GET"),
+		headers: () => headers,
+		resourceType: () => resourceType,
+		postDataBuffer: () => (postData ? Buffer.from(postData) : null),
+		failure: () => ({ errorText: "net::ERR_FAILED" }),
+		timing: () => ({
+			startTime: new Date("2025-11-06T10:00:00.000Z").getTime(),
+			domainLookupStart: -1,
+			domainLookupEnd: -1,
+			connectStart: -1,
+			connectEnd: -1,
+			secureConnectionStart: -1,
+			requestStart: 0,
+			responseStart: 10,
+			responseEnd: 20,
+		}),
+	} as unknown as Request;
+}
+
+function createResponse({
+	contentType = "application/json",
+	body = "{}",
+}: {
+	contentType?: string;
+	body?: string | Error;
+} = {}): Response {
+	return {
+		status: () => 200,
+		headers: () => ({ "content-type": contentType, "set-cookie": "a=1\nb=2" }),
+		headerValue: async (name: string) =>
+			name.toLowerCase() === "content-type" ? contentType : null,
+		body: async () => {
+			if (body instanceof Error) {
+				throw body;
+			}
+			return Buffer.from(body);
+		},
+	} as unknown as Response;
+}
@@ -0,0 +1,363 @@
+import { describe, expect, it } from "vitest";
+import { buildOtlpRequest, type Span } from "../src/shared/otel";
+import { buildOtlpLogsRequest } from "../src/shared/otlp-logs";
+import { buildOtlpMetricsRequest } from "../src/shared/otlp-metrics";
+import {
+	encodeOtlpLogsRequest,
+	encodeOtlpMetricsRequest,
+	encodeOtlpTraceRequest,
+} from "../src/shared/otlp-protobuf";
+
+type Field = { field: number; value: bigint | Uint8Array };
+
+/** Decode one level of protobuf fields; nested messages stay as bytes. */
+function readFields(bytes: Uint8Array): Field[] {
+	const fields: Field[] = [];
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let offset = 0;
+
+	const readVarint = (): bigint => {
+		let result = BigInt(0);
+		let shift = BigInt(0);
+		while (true) {
+			const byte = bytes[offset++] as number;
+			result |= BigInt(byte & 0x7f) << shift;
+			if ((byte & 0x80) === 0) {
+				return result;
+			}
+			shift += BigInt(7);
+		}
+	};
+
+	while (offset < bytes.length) {
+		const tag = Number(readVarint());
+		const field = tag >> 3;
+		const wireType = tag & 7;
+		if (wireType === 0) {
+			fields.push({ field, value: readVarint() });
+		} else if (wireType === 1) {
+			fields.push({ field, value: view.getBigUint64(offset, true) });
+			offset += 8;
+		} else if (wireType === 2) {
+			const length = Number(readVarint());
+			fields.push({ field, value: bytes.subarray(offset, offset + length) });
+			offset += length;
+		} else {
+			throw new Error(`Unexpected wire type ${wireType}`);
+		}
+	}
+	return fields;
+}
+
+function field(fields: Field[], number: number): Field["value"] {
+	const found = fields.find((candidate) => candidate.field === number);
+	if (!found) {
+		throw new Error(`Field ${number} not found`);
+	}
+	return found.value;
+}
+
+function message(fields: Field[], number: number): Field[] {
+	return readFields(field(fields, number) as Uint8Array);
+}
+
+function text(value: Field["value"]): string {
+	return new TextDecoder().decode(value as Uint8Array);
+}
+
+function hex(value: Field["value"]): string {
+	return Buffer.from(value as Uint8Array).toString("hex");
+}
+
+const span: Span = {
+	traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+	spanId: "1234567890abcdef",
+	parentSpanId: "fedcba0987654321",
+	traceState: "ci=job",
+	name: "playwright.test",
+	startTime: new Date("2025-11-06T10:00:00.000Z"),
+	endTime: new Date("2025-11-06T10:00:01.500Z"),
+	attributes: {
+		"test.case.title": "has title",
+		"code.line.number": 3,
+		"playwright.test.retry": -1,
+		"playwright.test.ratio": 0.5,
+		"playwright.test.flaky": true,
+		"playwright.test.describes": ["suite", "nested"],
+	},
+	events: [
+		{
+			name: "log",
+			time: new Date("2025-11-06T10:00:00.250Z"),
+			attributes: { "log.message": "hello" },
+		},
+	],
+	links: [
+		{
+			traceId: "00112233445566778899aabbccddeeff",
+			spanId: "0011223344556677",
+		},
+	],
+	status: { code: 2, message: "failed" },
+	kind: 3,
+};
+
+describe("encodeOtlpTraceRequest", () => {
+	const encoded = encodeOtlpTraceRequest(buildOtlpRequest([span], "1.56.1"));
+	const resourceSpans = message(readFields(encoded), 1);
+	const scopeSpans = message(resourceSpans, 2);
+	const encodedSpan = message(scopeSpans, 2);
+
+	it("encodes resource attributes and the instrumentation scope", () => {
+		const resourceAttributes = readFields(field(resourceSpans, 1) as Uint8Array)
+			.filter((candidate) => candidate.field === 1)
+			.map((attribute) => {
+				const keyValue = readFields(attribute.value as Uint8Array);
+				return [text(field(keyValue, 1)), text(field(message(keyValue, 2), 1))];
+			});
+
+		expect(resourceAttributes).toEqual([
+			["service.name", "playwright-tests"],
+			["service.namespace", "playwright"],
+			["service.version", "1.56.1"],
+		]);
+		expect(text(field(message(scopeSpans, 1), 1))).toBe(
+			"playwright-opentelemetry",
+		);
+	});
+
+	it("encodes span identity, timing, kind and status", () => {
+		expect(hex(field(encodedSpan, 1))).toBe(span.traceId);
+		expect(hex(field(encodedSpan, 2))).toBe(span.spanId);
+		expect(text(field(encodedSpan, 3))).toBe("ci=job");
+		expect(hex(field(encodedSpan, 4))).toBe(span.parentSpanId);
+		expect(text(field(encodedSpan, 5))).toBe("playwright.test");
+		expect(field(encodedSpan, 6)).toBe(BigInt(3));
+		expect(field(encodedSpan, 7)).toBe(BigInt("1762423200000000000"));
+		expect(field(encodedSpan, 8)).toBe(BigInt("1762423201500000000"));
+
+		const status = message(encodedSpan, 15);
+		expect(text(field(status, 2))).toBe("failed");
+		expect(field(status, 3)).toBe(BigInt(2));
+	});
+
+	it("encodes every attribute value type", () => {
+		const values = Object.fromEntries(
+			encodedSpan
+				.filter((candidate) => candidate.field === 9)
+				.map((attribute) => {
+					const keyValue = readFields(attribute.value as Uint8Array);
+					return [text(field(keyValue, 1)), message(keyValue, 2)];
+				}),
+		);
+
+		expect(text(field(values["test.case.title"], 1))).toBe("has title");
+		expect(field(values["code.line.number"], 3)).toBe(BigInt(3));
+		expect(field(values["playwright.test.retry"], 3)).toBe(
+			BigInt.asUintN(64, BigInt(-1)),
+		);
+		const ratio = new Uint8Array(8);
+		new DataView(ratio.buffer).setFloat64(0, 0.5, true);
+		expect(field(values["playwright.test.ratio"], 4)).toBe(
+			new DataView(ratio.buffer).getBigUint64(0, true),
+		);
+		expect(field(values["playwright.test.flaky"], 2)).toBe(BigInt(1));
+		expect(
+			readFields(
+				field(values["playwright.test.describes"], 5) as Uint8Array,
+			).map((item) => text(field(readFields(item.value as Uint8Array), 1))),
+		).toEqual(["suite", "nested"]);
+	});
+
+	it("writes zero, false and empty attribute values", () => {
+		const encodedZeroes = encodeOtlpTraceRequest(
+			buildOtlpRequest(
+				[
+					{
+						...span,
+						attributes: {
+							"playwright.test.retry": 0,
+							"playwright.test.flaky": false,
+							"test.case.title": "",
+						},
+						events: [],
+						links: [],
+					},
+				],
+				"1.56.1",
+			),
+		);
+		const zeroSpan = message(
+			message(message(readFields(encodedZeroes), 1), 2),
+			2,
+		);
+		const values = zeroSpan
+			.filter((candidate) => candidate.field === 9)
+			.map((attribute) => {
+				const keyValue = readFields(attribute.value as Uint8Array);
+				return [text(field(keyValue, 1)), message(keyValue, 2)] as const;
+			});
+
+		expect(values).toEqual([
+			["playwright.test.retry", [{ field: 3, value: BigInt(0) }]],
+			["playwright.test.flaky", [{ field: 2, value: BigInt(0) }]],
+			["test.case.title", [{ field: 1, value: new Uint8Array() }]],
+		]);
+	});
+
+	it("encodes events and links", () => {
+		const event = message(encodedSpan, 11);
+		expect(field(event, 1)).toBe(BigInt("1762423200250000000"));
+		expect(text(field(event, 2))).toBe("log");
+
+		const link = message(encodedSpan, 13);
+		expect(hex(field(link, 1))).toBe("00112233445566778899aabbccddeeff");
+		expect(hex(field(link, 2))).toBe("0011223344556677");
+	});
+});
+
+describe("encodeOtlpLogsRequest", () => {
+	const encoded = encodeOtlpLogsRequest(
+		buildOtlpLogsRequest(
+			[
+				{
+					time: new Date("2025-11-06T10:00:00.250Z"),
+					severityText: "WARN",
+					body: "Slow checkout render",
+					attributes: { "browser.console.type": "warning" },
+					traceId: span.traceId,
+					spanId: span.spanId,
+					serviceName: "playwright-browser",
+				},
+			],
+			"1.56.1",
+		),
+	);
+	const resourceLogs = message(readFields(encoded), 1);
+	const scopeLogs = message(resourceLogs, 2);
+	const record = message(scopeLogs, 2);
+
+	it("encodes the resource and instrumentation scope", () => {
+		const serviceName = readFields(field(resourceLogs, 1) as Uint8Array)
+			.map((attribute) => readFields(attribute.value as Uint8Array))
+			.find((keyValue) => text(field(keyValue, 1)) === "service.name");
+		expect(text(field(message(serviceName ?? [], 2), 1))).toBe(
+			"playwright-browser",
+		);
+		expect(text(field(message(scopeLogs, 1), 1))).toBe(
+			"playwright-opentelemetry",
+		);
+	});
+
+	it("encodes timing, severity, body, attributes and span correlation", () => {
+		expect(field(record, 1)).toBe(BigInt("1762423200250000000"));
+		expect(field(record, 2)).toBe(BigInt(13));
+		expect(text(field(record, 3))).toBe("WARN");
+		expect(text(field(message(record, 5), 1))).toBe("Slow checkout render");
+		expect(text(field(message(record, 6), 1))).toBe("browser.console.type");
+		expect(hex(field(record, 9))).toBe(span.traceId);
+		expect(hex(field(record, 10))).toBe(span.spanId);
+		expect(field(record, 11)).toBe(BigInt("1762423200250000000"));
+	});
+});
+
+describe("encodeOtlpMetricsRequest", () => {
+	const encoded = encodeOtlpMetricsRequest(
+		buildOtlpMetricsRequest(
+			[
+				{
+					name: "playwright.test.duration",
+					description: "Duration of each test attempt.",
+					unit: "s",
+					kind: "histogram",
+					boundaries: [1, 10],
+					dataPoints: [
+						{
+							attributes: { "playwright.project.name": "chromium" },
+							count: 2,
+							sum: 6,
+							min: 0,
+							max: 5.5,
+							bucketCounts: [1, 1, 0],
+						},
+					],
+				},
+				{
+					name: "playwright.test.outcomes",
+					description: "Tests by final outcome.",
+					unit: "{test}",
+					kind: "counter",
+					dataPoints: [
+						{ attributes: { "playwright.test.outcome": "passed" }, value: 3 },
+						{ attributes: { "playwright.test.outcome": "failed" }, value: 0 },
+					],
+				},
+			],
+			{
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				endTime: new Date("2025-11-06T10:00:01.500Z"),
+			},
+			"1.56.1",
+		),
+	);
+	const scopeMetrics = message(message(readFields(encoded), 1), 2);
+	const [histogramMetric, sumMetric] = scopeMetrics
+		.filter((candidate) => candidate.field === 2)
+		.map((candidate) => readFields(candidate.value as Uint8Array));
+
+	/** Read a fixed64 field as a double, or a packed field as doubles. */
+	const doubles = (value: Field["value"]) => {
+		const bytes =
+			typeof value === "bigint"
+				? new Uint8Array(new BigUint64Array([value]).buffer)
+				: value.slice();
+		const view = new DataView(bytes.buffer);
+		return Array.from({ length: bytes.length / 8 }, (_, index) =>
+			view.getFloat64(index * 8, true),
+		);
+	};
+	const fixed64s = (value: Field["value"]) => {
+		const view = new DataView((value as Uint8Array).slice().buffer);
+		return Array.from({ length: view.byteLength / 8 }, (_, index) =>
+			view.getBigUint64(index * 8, true),
+		);
+	};
+
+	it("encodes cumulative histograms with buckets, sum, min and max", () => {
+		expect(text(field(histogramMetric ?? [], 1))).toBe(
+			"playwright.test.duration",
+		);
+		expect(text(field(histogramMetric ?? [], 3))).toBe("s");
+		const histogram = message(histogramMetric ?? [], 9);
+		expect(field(histogram, 2)).toBe(BigInt(2));
+
+		const point = message(histogram, 1);
+		expect(field(point, 2)).toBe(BigInt("1762423200000000000"));
+		expect(field(point, 3)).toBe(BigInt("1762423201500000000"));
+		expect(field(point, 4)).toBe(BigInt(2));
+		expect(doubles(field(point, 5))).toEqual([6]);
+		expect(fixed64s(field(point, 6))).toEqual([
+			BigInt(1),
+			BigInt(1),
+			BigInt(0),
+		]);
+		expect(doubles(field(point, 7))).toEqual([1, 10]);
+		// min is optional, so an explicit zero is still encoded.
+		expect(doubles(field(point, 11))).toEqual([0]);
+		expect(doubles(field(point, 12))).toEqual([5.5]);
+	});
+
+	it("encodes monotonic cumulative sums", () => {
+		const sum = message(sumMetric ?? [], 7);
+		expect(field(sum, 2)).toBe(BigInt(2));
+		expect(field(sum, 3)).toBe(BigInt(1));
+		expect(field(message(sum, 1), 6)).toBe(BigInt(3));
+	});
+
+	it("writes zero counter values", () => {
+		const points = message(sumMetric ?? [], 7)
+			.filter((candidate) => candidate.field === 1)
+			.map((candidate) => readFields(candidate.value as Uint8Array));
+		expect(field(points[1] ?? [], 6)).toBe(BigInt(0));
+	});
+});
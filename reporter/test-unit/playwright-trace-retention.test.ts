@@ -79,4 +79,33 @@ describe("PlaywrightOpentelemetryReporter trace retention", () => {
 
 		expect(sendSpans).toHaveBeenCalledTimes(1);
 	});
+
+	it("does not publish tests excluded by sampling", async () => {
+		const { testResult } = await runReporterTest({
+			playwrightOpentelemetry: { sampling: { excludeTags: ["@quarantine"] } },
+			test: { title: "quarantined", tags: ["@quarantine"] },
+		});
+
+		expect(sendSpans).not.toHaveBeenCalled();
+		expect(testResult.annotations).not.toContainEqual(
+			expect.objectContaining({
+				type: "playwrightOpentelemetryTraceId",
+			}),
+		);
+	});
+
+	it("publishes failed tests when sampling drops passing ones", async () => {
+		await runReporterTest({
+			playwrightOpentelemetry: { sampling: { ratio: 0 } },
+			test: { title: "sampled out" },
+		});
+		expect(sendSpans).not.toHaveBeenCalled();
+
+		await runReporterTest({
+			playwrightOpentelemetry: { sampling: { ratio: 0 } },
+			test: { title: "failing" },
+			result: { status: "failed" },
+		});
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+	});
 });
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { resolvePlaywrightOpentelemetryConfig } from "../src/shared/config";
+import type { Span } from "../src/shared/otel";
+import { createRedactionSpanProcessor } from "../src/shared/redaction";
+import { applySpanProcessors } from "../src/shared/span-processors";
+
+function buildSpan(overrides: Partial<Span> = {}): Span {
+	return {
+		traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+		spanId: "1234567890abcdef",
+		name: "browser.fetch",
+		startTime: new Date("2025-11-06T10:00:00.000Z"),
+		endTime: new Date("2025-11-06T10:00:01.000Z"),
+		attributes: {},
+		...overrides,
+	};
+}
+
+function redact(
+	span: Span,
+	config: Parameters<typeof createRedactionSpanProcessor>[0],
+): Span | undefined {
+	const processor = createRedactionSpanProcessor(config);
+	if (!processor) {
+		throw new Error("Expected a redaction processor");
+	}
+	return applySpanProcessors([span], [processor])[0];
+}
+
+describe("createRedactionSpanProcessor", () => {
+	it("redacts configured query parameters in URLs and url.query", () => {
+		const span = redact(
+			buildSpan({
+				attributes: {
+					"url.full":
+						"https://api.example.com/orders?Token=abc123&page=2&api_key=k#top",
+					"url.query": "token=abc123&page=2&api_key=k",
+					"url.path": "/orders",
+				},
+			}),
+			{ queryParams: ["token", "api_key"] },
+		);
+
+		expect(span?.attributes).toEqual({
+			"url.full":
+				"https://api.example.com/orders?Token=REDACTED&page=2&api_key=REDACTED#top",
+			"url.query": "token=REDACTED&page=2&api_key=REDACTED",
+			"url.path": "/orders",
+		});
+	});
+
+	it("replaces header attribute values by header name", () => {
+		const span = redact(
+			buildSpan({
+				attributes: {
+					"http.request.header.authorization": ["Bearer secret"],
+					"http.response.header.set_cookie": "session=secret",
+					"http.request.header.accept": ["application/json"],
+				},
+			}),
+			{ headers: ["Authorization", "Set-Cookie"] },
+		);
+
+		expect(span?.attributes).toEqual({
+			"http.request.header.authorization": ["REDACTED"],
+			"http.response.header.set_cookie": "REDACTED",
+			"http.request.header.accept": ["application/json"],
+		});
+	});
+
+	it("replaces pattern matches in attributes, events, links and status", () => {
+		const span = redact(
+			buildSpan({
+				attributes: { "test.case.title": "signs in as jane@example.com" },
+				events: [
+					{
+						name: "log",
+						time: new Date("2025-11-06T10:00:00.500Z"),
+						attributes: {
+							message: "user jane@example.com has ssn 123-45-6789",
+						},
+					},
+				],
+				links: [
+					{
+						traceId: "00112233445566778899aabbccddeeff",
+						spanId: "0011223344556677",
+						attributes: { owner: "ops@example.com" },
+					},
+				],
+				status: { code: 2, message: "login failed for jane@example.com" },
+			}),
+			{
+				patterns: [/[\w.+-]+@[\w-]+\.[\w.]+/, "\\d{3}-\\d{2}-\\d{4}"],
+				replacement: "***",
+			},
+		);
+
+		expect(span?.attributes["test.case.title"]).toBe("signs in as ***");
+		expect(span?.events?.[0]?.attributes?.message).toBe("user *** has ssn ***");
+		expect(span?.links?.[0]?.attributes?.owner).toBe("***");
+		expect(span?.status?.message).toBe("login failed for ***");
+	});
+
+	it("returns no processor when nothing is configured", () => {
+		expect(createRedactionSpanProcessor({})).toBeUndefined();
+	});
+});
+
+describe("redaction config", () => {
+	it("runs after user span processors", () => {
+		const config = resolvePlaywrightOpentelemetryConfig({
+			spanProcessors: [
+				(span) => {
+					span.attributes["enduser.id"] = "jane@example.com";
+					return undefined;
+				},
+			],
+			redaction: { patterns: ["jane@example\\.com"] },
+		});
+
+		const [span] = applySpanProcessors([buildSpan()], config.spanProcessors);
+
+		expect(span?.attributes["enduser.id"]).toBe("REDACTED");
+	});
+
+	it("rejects invalid patterns", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				redaction: { patterns: ["(unclosed"] },
+			}),
+		).toThrowError(
+			/^playwrightOpentelemetry\.redaction\.patterns contains an invalid regular expression "\(unclosed"/,
+		);
+	});
+});
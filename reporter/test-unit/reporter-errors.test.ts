@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TEST_SPAN_NAME } from "../src/reporter/reporter-attributes";
+import type { Span } from "../src/shared/otel";
+import { DEFAULT_ROOT_DIR, runReporterTest } from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+}));
+
+import { sendSpans } from "../src/reporter/sender";
+
+function testSpan(): Span | undefined {
+	const [spans] = vi.mocked(sendSpans).mock.calls[0] ?? [];
+	return spans?.find((span: Span) => span.name === TEST_SPAN_NAME);
+}
+
+describe("PlaywrightOpentelemetryReporter - Test errors", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("records each TestResult error as an exception event", async () => {
+		await runReporterTest({
+			test: { title: "checkout" },
+			result: {
+				status: "failed",
+				duration: 2000,
+				errors: [
+					{
+						message:
+							"Error: \u001b[2mexpect(\u001b[22m\u001b[31mreceived\u001b[39m\u001b[2m).\u001b[22mtoBe\u001b[2m(\u001b[22m\u001b[32mexpected\u001b[39m\u001b[2m)\u001b[22m\n\nExpected: 2\nReceived: 1",
+						stack:
+							"Error: expect(received).toBe(expected)\n    at /Users/test/project/test-e2e/tests/checkout.spec.ts:12:15",
+						snippet:
+							"  11 |   await page.goto('/cart');\n> 12 |   expect(total).toBe(2);\n     |               ^",
+						location: {
+							file: `${DEFAULT_ROOT_DIR}/tests/checkout.spec.ts`,
+							line: 12,
+							column: 15,
+						},
+					},
+				],
+			},
+			config: { rootDir: DEFAULT_ROOT_DIR },
+		});
+
+		expect(testSpan()?.events).toEqual([
+			{
+				name: "exception",
+				time: new Date("2025-11-06T10:00:02.000Z"),
+				attributes: {
+					"exception.type": "Error",
+					"exception.message":
+						"expect(received).toBe(expected)\n\nExpected: 2\nReceived: 1",
+					"exception.stacktrace":
+						"Error: expect(received).toBe(expected)\n    at /Users/test/project/test-e2e/tests/checkout.spec.ts:12:15",
+					"playwright.error.snippet":
+						"  11 |   await page.goto('/cart');\n> 12 |   expect(total).toBe(2);\n     |               ^",
+					"code.file.path": "tests/checkout.spec.ts",
+					"code.line.number": 12,
+					"code.column.number": 15,
+				},
+			},
+		]);
+	});
+
+	it("records soft assertion failures as separate events at their step's end", async () => {
+		await runReporterTest({
+			test: { title: "soft assertions" },
+			result: {
+				status: "failed",
+				steps: [
+					{
+						title: "expect.soft.toHaveText",
+						category: "expect",
+						startTime: new Date("2025-11-06T10:00:00.200Z"),
+						duration: 100,
+						error: { message: "Error: first soft failure" },
+					},
+					{
+						title: "expect.soft.toBeVisible",
+						category: "expect",
+						startTime: new Date("2025-11-06T10:00:00.500Z"),
+						duration: 200,
+						error: { message: "Error: second soft failure" },
+					},
+				],
+				errors: [
+					{ message: "Error: first soft failure" },
+					{ message: "Error: second soft failure" },
+				],
+			},
+		});
+
+		expect(
+			testSpan()?.events?.map((event) => ({
+				time: event.time,
+				message: event.attributes?.["exception.message"],
+			})),
+		).toEqual([
+			{
+				time: new Date("2025-11-06T10:00:00.300Z"),
+				message: "first soft failure",
+			},
+			{
+				time: new Date("2025-11-06T10:00:00.700Z"),
+				message: "second soft failure",
+			},
+		]);
+	});
+
+	it("uses the error name from the stack and thrown values as messages", async () => {
+		await runReporterTest({
+			test: { title: "thrown values" },
+			result: {
+				status: "failed",
+				errors: [
+					{
+						message: "page.click: Timeout 5000ms exceeded.",
+						stack:
+							"TimeoutError: page.click: Timeout 5000ms exceeded.\n    at tests/a.spec.ts:3:14",
+					},
+					{ value: "plain string" },
+				],
+			},
+		});
+
+		expect(
+			testSpan()?.events?.map((event) => ({
+				type: event.attributes?.["exception.type"],
+				message: event.attributes?.["exception.message"],
+			})),
+		).toEqual([
+			{
+				type: "TimeoutError",
+				message: "page.click: Timeout 5000ms exceeded.",
+			},
+			{ type: undefined, message: "plain string" },
+		]);
+	});
+
+	it("adds no events to passing tests", async () => {
+		await runReporterTest({ test: { title: "passing" } });
+
+		expect(testSpan()?.events).toBeUndefined();
+	});
+});
@@ -27,6 +27,7 @@ export interface TestHarnessOptions {
 	result?: ResultDefinition;
 	includeTraceContextAttachment?: boolean;
 	afterOtelOnTestEnd?: (test: TestCase, result: TestResult) => void;
+	fullResult?: Partial<FullResult>;
 }
 
 export interface ConfigDefinition {
@@ -34,6 +35,10 @@ export interface ConfigDefinition {
 	/** Output directory for the test project (used for trace file coordination) */
 	outputDir?: string;
 	version?: string;
+	/** Project names reported in FullConfig.projects, sharing the test's config */
+	projectNames?: string[];
+	workers?: number;
+	shard?: { current: number; total: number } | null;
 }
 
 export interface TestDefinition {
@@ -41,6 +46,11 @@ export interface TestDefinition {
 	title: string;
 	titlePath?: string[];
 	expectedStatus?: "passed" | "failed" | "skipped" | "timedOut";
+	tags?: string[];
+	annotations?: Array<{
+		type: string;
+		description?: string;
+	}>;
 	location?: {
 		file: string;
 		line: number;
@@ -53,7 +63,10 @@ export interface ResultDefinition {
 	startTime?: Date;
 	duration?: number;
 	retry?: number;
+	workerIndex?: number;
+	parallelIndex?: number;
 	steps?: StepDefinition[];
+	errors?: TestResult["errors"];
 	attachments?: Array<{
 		name: string;
 		contentType: string;
@@ -140,9 +153,9 @@ export type { FullConfig, FullResult, Suite, TestCase, TestResult };
 // Re-export for convenience in tests
 export {
 	fixtureCaptureRequestResponse,
+	PlaywrightOpentelemetryReporter,
 	propagateRouteTraceHeaders,
 	storeRequestTraceContext,
-	PlaywrightOpentelemetryReporter,
 };
 
 /**
@@ -180,6 +193,7 @@ export async function runReporterTest({
 	result,
 	includeTraceContextAttachment = true,
 	afterOtelOnTestEnd,
+	fullResult = {},
 }: TestHarnessOptions): Promise<TestHarnessResult> {
 	const mergedPlaywrightOpentelemetry: PlaywrightOpentelemetryConfig = {
 		...DEFAULT_PLAYWRIGHT_OPENTELEMETRY_CONFIG,
@@ -190,7 +204,7 @@ export async function runReporterTest({
 	const reporter = new PlaywrightOpentelemetryReporter();
 
 	// Build mock objects
-	const mergedConfig = buildConfig(config);
+	const mergedConfig = buildConfig(config, mergedPlaywrightOpentelemetry);
 	// Generate a unique test ID if not provided
 	const testId =
 		test.id ?? `test-${test.title.replace(/\s+/g, "-").toLowerCase()}`;
@@ -240,7 +254,7 @@ export async function runReporterTest({
 
 	reporter.onTestEnd(testCase, testResult);
 	afterOtelOnTestEnd?.(testCase, testResult);
-	await reporter.onEnd({} as FullResult);
+	await reporter.onEnd(fullResult as FullResult);
 
 	return { reporter, testResult };
 }
@@ -345,11 +359,20 @@ export function createMockRoute(
 	return createMockNetworkObjects(method, url, options).route;
 }
 
-export function buildConfig(def?: ConfigDefinition): FullConfig {
+export function buildConfig(
+	def?: ConfigDefinition,
+	playwrightOpentelemetry: PlaywrightOpentelemetryConfig = DEFAULT_PLAYWRIGHT_OPENTELEMETRY_CONFIG,
+): FullConfig {
 	return {
 		rootDir: def?.rootDir ?? DEFAULT_ROOT_DIR,
 		version: def?.version ?? DEFAULT_VERSION,
-	} as FullConfig;
+		projects: def?.projectNames?.map((name) => ({
+			name,
+			use: { playwrightOpentelemetry },
+		})),
+		workers: def?.workers,
+		shard: def?.shard ?? null,
+	} as unknown as FullConfig;
 }
 
 export function buildTestCase(
@@ -367,14 +390,16 @@ export function buildTestCase(
 	// Generate a stable test ID from the title if not provided
 	const id = def.id ?? `test-${def.title.replace(/\s+/g, "-").toLowerCase()}`;
 
-	// Create a mock parent suite with project info
+	// Create a mock parent suite with project info. Playwright hands out the
+	// same project object every time.
+	const project = {
+		outputDir,
+		use: {
+			playwrightOpentelemetry,
+		},
+	};
 	const parentSuite = {
-		project: () => ({
-			outputDir,
-			use: {
-				playwrightOpentelemetry,
-			},
-		}),
+		project: () => project,
 	};
 
 	return {
@@ -382,6 +407,8 @@ export function buildTestCase(
 		title: def.title,
 		titlePath: () => titlePath,
 		expectedStatus: def.expectedStatus ?? "passed",
+		tags: def.tags ?? [],
+		annotations: def.annotations ?? [],
 		parent: parentSuite,
 		location: def.location
 			? {
@@ -406,9 +433,12 @@ export function buildTestResult(
 	return {
 		status: def?.status ?? "passed",
 		retry: def?.retry ?? 0,
+		workerIndex: def?.workerIndex,
+		parallelIndex: def?.parallelIndex,
 		startTime,
 		duration,
 		steps,
+		errors: def?.errors ?? [],
 		attachments: def?.attachments ?? [retainedTraceAttachment()],
 		annotations: def?.annotations ?? [],
 	} as Partial<TestResult> as TestResult;
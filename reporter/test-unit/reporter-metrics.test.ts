@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runReporterTest } from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+	sendMetrics: vi.fn(async () => "sent"),
+	replaySpooledMetrics: vi.fn(),
+}));
+
+import { sendMetrics, sendSpans } from "../src/reporter/sender";
+
+describe("PlaywrightOpentelemetryReporter - Metrics", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("exports test duration, step duration and outcome metrics at the end of the run", async () => {
+		await runReporterTest({
+			playwrightOpentelemetry: {
+				otlpMetricsEndpoint: {
+					url: "http://localhost:4318/v1/metrics",
+					headers: { "x-api-key": "secret" },
+				},
+			},
+			test: {
+				title: "checkout",
+				tags: ["@smoke"],
+				location: { file: "/repo/tests/checkout.spec.ts", line: 3 },
+			},
+			result: {
+				duration: 1500,
+				steps: [{ title: "goto", category: "pw:api", duration: 300 }],
+			},
+			config: { rootDir: "/repo" },
+		});
+
+		expect(sendMetrics).toHaveBeenCalledTimes(1);
+		const [metrics, interval, options] =
+			vi.mocked(sendMetrics).mock.calls[0] ?? [];
+		expect(options).toEqual(
+			expect.objectContaining({
+				metricsEndpoint: "http://localhost:4318/v1/metrics",
+				headers: { "x-api-key": "secret" },
+			}),
+		);
+		expect(interval?.startTime.getTime()).toBeLessThanOrEqual(
+			interval?.endTime.getTime() ?? 0,
+		);
+
+		const keys = {
+			"playwright.project.name": "chromium",
+			"code.file.path": "tests/checkout.spec.ts",
+			"playwright.test.tags": ["@smoke"],
+		};
+		expect(metrics?.map((metric) => [metric.name, metric.dataPoints])).toEqual([
+			[
+				"playwright.test.duration",
+				[
+					expect.objectContaining({
+						attributes: { ...keys, "playwright.test.status": "passed" },
+						count: 1,
+						sum: 1.5,
+					}),
+				],
+			],
+			[
+				"playwright.test.step.duration",
+				[
+					expect.objectContaining({
+						attributes: { ...keys, "test.step.category": "pw:api" },
+						count: 1,
+						sum: 0.3,
+					}),
+				],
+			],
+			[
+				"playwright.test.outcomes",
+				[
+					{
+						attributes: { ...keys, "playwright.test.outcome": "passed" },
+						value: 1,
+					},
+				],
+			],
+		]);
+	});
+
+	it("records metrics for tests whose trace is not retained", async () => {
+		await runReporterTest({
+			playwrightOpentelemetry: {
+				trace: "retain-on-failure",
+				otlpMetricsEndpoint: { url: "http://localhost:4318/v1/metrics" },
+			},
+			test: { title: "passing" },
+		});
+
+		expect(sendSpans).not.toHaveBeenCalled();
+		expect(sendMetrics).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not export metrics without a metrics endpoint", async () => {
+		await runReporterTest({ test: { title: "no metrics" } });
+
+		expect(sendMetrics).not.toHaveBeenCalled();
+	});
+});
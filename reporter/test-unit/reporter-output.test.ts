@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TEST_SPAN_NAME } from "../src/reporter/reporter-attributes";
+import type { PlaywrightOpentelemetryConfig } from "../src/shared/config";
+import type { Span } from "../src/shared/otel";
+import {
+	buildConfig,
+	buildTestCase,
+	buildTestResult,
+	type FullResult,
+	PlaywrightOpentelemetryReporter,
+	type Suite,
+} from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+	sendLogs: vi.fn(async () => "sent"),
+	replaySpooledLogs: vi.fn(),
+}));
+
+vi.mock("../src/shared/config", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../src/shared/config")>();
+	return {
+		...actual,
+		resolvePlaywrightOpentelemetryConfig: vi.fn(
+			actual.resolvePlaywrightOpentelemetryConfig,
+		),
+	};
+});
+
+import { sendLogs, sendSpans } from "../src/reporter/sender";
+import { resolvePlaywrightOpentelemetryConfig } from "../src/shared/config";
+
+async function runWithOutput(
+	writeOutput: (
+		reporter: PlaywrightOpentelemetryReporter,
+		test: ReturnType<typeof buildTestCase>,
+		result: ReturnType<typeof buildTestResult>,
+	) => void,
+	playwrightOpentelemetry: PlaywrightOpentelemetryConfig = {
+		otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+	},
+): Promise<Span> {
+	const reporter = new PlaywrightOpentelemetryReporter();
+	const test = buildTestCase(
+		{ title: "logs" },
+		undefined,
+		playwrightOpentelemetry,
+	);
+	const result = buildTestResult(undefined);
+	reporter.onBegin(buildConfig(), { allTests: () => [test] } as Suite);
+
+	writeOutput(reporter, test, result);
+	reporter.onTestEnd(test, result);
+	await reporter.onEnd({} as FullResult);
+
+	const [spans] = vi.mocked(sendSpans).mock.calls[0] ?? [];
+	const testSpan = spans?.find((span) => span.name === TEST_SPAN_NAME);
+	if (!testSpan) {
+		throw new Error("No test span was sent");
+	}
+	return testSpan;
+}
+
+describe("PlaywrightOpentelemetryReporter - Test output", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ toFake: ["Date"] });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("records stdout and stderr chunks as timestamped log events", async () => {
+		const testSpan = await runWithOutput((reporter, test, result) => {
+			vi.setSystemTime(new Date("2025-11-06T10:00:00.100Z"));
+			reporter.onStdOut("seeding database\n", test, result);
+			vi.setSystemTime(new Date("2025-11-06T10:00:00.200Z"));
+			reporter.onStdErr(Buffer.from("deprecated API\n"), test, result);
+			// Output outside a test has no span to attach to.
+			reporter.onStdOut("global setup\n");
+		});
+
+		expect(testSpan.events).toEqual([
+			{
+				name: "log",
+				time: new Date("2025-11-06T10:00:00.100Z"),
+				attributes: {
+					message: "seeding database",
+					"log.iostream": "stdout",
+					"severity.text": "INFO",
+				},
+			},
+			{
+				name: "log",
+				time: new Date("2025-11-06T10:00:00.200Z"),
+				attributes: {
+					message: "deprecated API",
+					"log.iostream": "stderr",
+					"severity.text": "ERROR",
+				},
+			},
+		]);
+	});
+
+	it("truncates long chunks and drops chunks beyond the per-test limit", async () => {
+		const testSpan = await runWithOutput(
+			(reporter, test, result) => {
+				reporter.onStdOut("x".repeat(20), test, result);
+				reporter.onStdOut("second\n", test, result);
+				reporter.onStdOut("third\n", test, result);
+				reporter.onStdErr("fourth\n", test, result);
+			},
+			{
+				otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+				testOutput: { maxEventLength: 8, maxEventsPerTest: 2 },
+			},
+		);
+
+		expect(testSpan.events?.map((event) => event.attributes)).toEqual([
+			expect.objectContaining({
+				message: "xxxxxxxx",
+				"playwright.log.truncated": true,
+			}),
+			expect.objectContaining({ message: "second" }),
+		]);
+		expect(testSpan.attributes["playwright.test.log.dropped_events"]).toBe(2);
+	});
+
+	it("does not record output when capture is disabled", async () => {
+		const testSpan = await runWithOutput(
+			(reporter, test, result) => {
+				reporter.onStdOut("hidden\n", test, result);
+			},
+			{
+				otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+				testOutput: { capture: false },
+			},
+		);
+
+		expect(testSpan.events).toBeUndefined();
+	});
+
+	it("resolves the project config once rather than for every chunk", async () => {
+		await runWithOutput((reporter, test, result) => {
+			for (let chunk = 0; chunk < 5; chunk++) {
+				reporter.onStdOut(`chunk ${chunk}\n`, test, result);
+			}
+		});
+
+		expect(resolvePlaywrightOpentelemetryConfig).toHaveBeenCalledTimes(1);
+	});
+
+	it("exports test output as log records correlated with the test span", async () => {
+		const testSpan = await runWithOutput(
+			(reporter, test, result) => {
+				vi.setSystemTime(new Date("2025-11-06T10:00:00.100Z"));
+				reporter.onStdOut("seeding database\n", test, result);
+				reporter.onStdErr("deprecated API\n", test, result);
+			},
+			{
+				otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+				otlpLogsEndpoint: {
+					url: "http://localhost:4318/v1/logs",
+					headers: { "x-api-key": "secret" },
+				},
+			},
+		);
+
+		expect(sendLogs).toHaveBeenCalledTimes(1);
+		const [records, options] = vi.mocked(sendLogs).mock.calls[0] ?? [];
+		expect(options).toEqual(
+			expect.objectContaining({
+				logsEndpoint: "http://localhost:4318/v1/logs",
+				headers: { "x-api-key": "secret" },
+			}),
+		);
+		expect(records).toEqual([
+			{
+				time: new Date("2025-11-06T10:00:00.100Z"),
+				severityText: "INFO",
+				body: "seeding database",
+				attributes: { "log.iostream": "stdout" },
+				traceId: testSpan.traceId,
+				spanId: testSpan.spanId,
+				serviceName: undefined,
+			},
+			expect.objectContaining({
+				severityText: "ERROR",
+				body: "deprecated API",
+				attributes: { "log.iostream": "stderr" },
+			}),
+		]);
+	});
+
+	it("batches log records from several tests into one request", async () => {
+		const playwrightOpentelemetry = {
+			otlpEndpoint: { url: "http://localhost:4317/v1/traces" },
+			otlpLogsEndpoint: { url: "http://localhost:4318/v1/logs" },
+		};
+		const reporter = new PlaywrightOpentelemetryReporter();
+		const tests = ["first", "second", "third"].map((title) =>
+			buildTestCase({ title }, undefined, playwrightOpentelemetry),
+		);
+		reporter.onBegin(buildConfig(), { allTests: () => tests } as Suite);
+
+		for (const test of tests) {
+			const result = buildTestResult(undefined);
+			reporter.onStdOut(`${test.title}\n`, test, result);
+			reporter.onTestEnd(test, result);
+		}
+		expect(sendLogs).not.toHaveBeenCalled();
+
+		await reporter.onEnd({} as FullResult);
+
+		expect(sendLogs).toHaveBeenCalledTimes(1);
+		expect(
+			vi.mocked(sendLogs).mock.calls[0]?.[0].map((record) => record.body),
+		).toEqual(["first", "second", "third"]);
+	});
+
+	it("does not export log records without a logs endpoint", async () => {
+		await runWithOutput((reporter, test, result) => {
+			reporter.onStdOut("seeding database\n", test, result);
+		});
+
+		expect(sendLogs).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	RUN_SPAN_NAME,
+	TEST_SPAN_NAME,
+} from "../src/reporter/reporter-attributes";
+import type { Span } from "../src/shared/otel";
+import {
+	buildConfig,
+	buildTestCase,
+	buildTestResult,
+	type FullConfig,
+	type FullResult,
+	PlaywrightOpentelemetryReporter,
+	runReporterTest,
+	type Suite,
+	type TestCase,
+} from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+}));
+
+import { sendSpans } from "../src/reporter/sender";
+
+describe("PlaywrightOpentelemetryReporter - Run span", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("exports a playwright.run span that every test span links to", async () => {
+		await runReporterTest({
+			config: {
+				projectNames: ["chromium", "firefox"],
+				workers: 4,
+				shard: { current: 2, total: 3 },
+			},
+			test: { title: "linked test" },
+			fullResult: {
+				status: "passed",
+				startTime: new Date("2025-11-06T09:59:59.000Z"),
+				duration: 5000,
+			},
+		});
+
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+		const [spans] = vi.mocked(sendSpans).mock.calls[0];
+		const runSpan = spans.find((span: Span) => span.name === RUN_SPAN_NAME);
+		const testSpan = spans.find((span: Span) => span.name === TEST_SPAN_NAME);
+
+		expect(runSpan).toEqual({
+			traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+			spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+			name: RUN_SPAN_NAME,
+			startTime: new Date("2025-11-06T09:59:59.000Z"),
+			endTime: new Date("2025-11-06T10:00:04.000Z"),
+			attributes: {
+				"playwright.run.projects": ["chromium", "firefox"],
+				"playwright.run.workers": 4,
+				"playwright.run.shard.current": 2,
+				"playwright.run.shard.total": 3,
+				"playwright.run.status": "passed",
+				"playwright.run.tests.total": 1,
+				"playwright.run.tests.passed": 1,
+				"playwright.run.tests.failed": 0,
+				"playwright.run.tests.flaky": 0,
+				"playwright.run.tests.skipped": 0,
+			},
+		});
+		expect(testSpan?.traceId).not.toBe(runSpan?.traceId);
+		expect(testSpan?.links).toEqual([
+			{ traceId: runSpan?.traceId, spanId: runSpan?.spanId },
+		]);
+	});
+
+	it("shares the run trace across shards and tags test spans with the run ID and shard", async () => {
+		vi.stubEnv("PLAYWRIGHT_OPENTELEMETRY_RUN_ID", "ci-1234");
+		try {
+			for (const current of [1, 2]) {
+				await runReporterTest({
+					config: {
+						projectNames: ["chromium"],
+						shard: { current, total: 2 },
+					},
+					test: { title: `shard ${current}` },
+					fullResult: { status: "passed" },
+				});
+			}
+		} finally {
+			vi.unstubAllEnvs();
+		}
+
+		const runSpans = vi
+			.mocked(sendSpans)
+			.mock.calls.map(([spans]) =>
+				spans.find((span: Span) => span.name === RUN_SPAN_NAME),
+			);
+		const testSpans = vi
+			.mocked(sendSpans)
+			.mock.calls.map(([spans]) =>
+				spans.find((span: Span) => span.name === TEST_SPAN_NAME),
+			);
+		expect(runSpans[0]?.traceId).toMatch(/^[0-9a-f]{32}$/);
+		expect(runSpans[1]?.traceId).toBe(runSpans[0]?.traceId);
+		expect(runSpans[1]?.spanId).not.toBe(runSpans[0]?.spanId);
+		expect(runSpans[1]?.attributes).toMatchObject({
+			"playwright.run.id": "ci-1234",
+			"playwright.run.shard.current": 2,
+			"playwright.run.shard.total": 2,
+		});
+		expect(testSpans[1]?.attributes).toMatchObject({
+			"playwright.run.id": "ci-1234",
+			"playwright.run.shard.current": 2,
+			"playwright.run.shard.total": 2,
+		});
+		expect(testSpans[1]?.links).toEqual([
+			{ traceId: runSpans[1]?.traceId, spanId: runSpans[1]?.spanId },
+		]);
+	});
+
+	it("parents the run span under an incoming TRACEPARENT", async () => {
+		vi.stubEnv(
+			"TRACEPARENT",
+			"00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+		);
+		vi.stubEnv("TRACESTATE", "ci=job");
+		try {
+			await runReporterTest({
+				config: { projectNames: ["chromium"] },
+				test: { title: "ci parent" },
+				fullResult: { status: "passed" },
+			});
+		} finally {
+			vi.unstubAllEnvs();
+		}
+
+		const [spans] = vi.mocked(sendSpans).mock.calls[0];
+		const runSpan = spans.find((span: Span) => span.name === RUN_SPAN_NAME);
+		const testSpan = spans.find((span: Span) => span.name === TEST_SPAN_NAME);
+		expect(runSpan).toMatchObject({
+			traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+			parentSpanId: "00f067aa0ba902b7",
+			traceState: "ci=job",
+		});
+		expect(testSpan?.traceId).not.toBe(runSpan?.traceId);
+		expect(testSpan?.links).toEqual([
+			{ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: runSpan?.spanId },
+		]);
+	});
+
+	it("sends the run span once per destination shared by several projects", async () => {
+		await runReporterTest({
+			config: { projectNames: ["chromium", "firefox", "webkit"] },
+			test: { title: "shared destination" },
+			fullResult: { status: "passed" },
+		});
+
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+		const [spans] = vi.mocked(sendSpans).mock.calls[0];
+		expect(
+			spans.filter((span: Span) => span.name === RUN_SPAN_NAME),
+		).toHaveLength(1);
+	});
+
+	it("counts final test outcomes across retries and marks failed runs as errors", async () => {
+		const reporter = new PlaywrightOpentelemetryReporter();
+		const flakyTest = buildTestCase({ id: "flaky", title: "flaky" });
+		const failedTest = buildTestCase({ id: "failed", title: "failed" });
+		const skippedTest = buildTestCase({ id: "skipped", title: "skipped" });
+		const passedTest = buildTestCase({ id: "passed", title: "passed" });
+
+		reporter.onBegin(buildConfig({ projectNames: ["chromium"] }), {
+			allTests: () => [flakyTest, failedTest, skippedTest, passedTest],
+		} as Suite);
+		reporter.onTestEnd(flakyTest, buildTestResult({ status: "failed" }));
+		reporter.onTestEnd(
+			flakyTest,
+			buildTestResult({ status: "passed", retry: 1 }),
+		);
+		reporter.onTestEnd(failedTest, buildTestResult({ status: "failed" }));
+		reporter.onTestEnd(
+			failedTest,
+			buildTestResult({ status: "timedOut", retry: 1 }),
+		);
+		reporter.onTestEnd(skippedTest, buildTestResult({ status: "skipped" }));
+		reporter.onTestEnd(passedTest, buildTestResult({ status: "passed" }));
+		await reporter.onEnd({ status: "failed" } as FullResult);
+
+		const [spans] = vi.mocked(sendSpans).mock.calls[0];
+		const runSpan = spans.find((span: Span) => span.name === RUN_SPAN_NAME);
+		expect(runSpan?.status).toEqual({ code: 2 });
+		expect(runSpan?.attributes).toMatchObject({
+			"playwright.run.status": "failed",
+			"playwright.run.tests.total": 4,
+			"playwright.run.tests.passed": 1,
+			"playwright.run.tests.failed": 1,
+			"playwright.run.tests.flaky": 1,
+			"playwright.run.tests.skipped": 1,
+		});
+	});
+});
+
+describe("PlaywrightOpentelemetryReporter - merge-reports", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	// Blob reports keep no project `use` options.
+	function replayedTestCase() {
+		return {
+			...buildTestCase({ title: "replayed" }),
+			parent: { project: () => ({ outputDir: "test-results", use: {} }) },
+		} as unknown as TestCase;
+	}
+
+	async function replay(reporter: PlaywrightOpentelemetryReporter) {
+		const testCase = replayedTestCase();
+		const config = {
+			...buildConfig(),
+			projects: [{ name: "chromium", use: {} }],
+		} as unknown as FullConfig;
+		reporter.onBegin(config, { allTests: () => [testCase] } as Suite);
+		reporter.onTestEnd(testCase, buildTestResult({ status: "passed" }));
+		await reporter.onEnd({ status: "passed" } as FullResult);
+	}
+
+	it("does not export again when replaying blob reports", async () => {
+		await replay(new PlaywrightOpentelemetryReporter({ _mode: "merge" }));
+
+		expect(sendSpans).not.toHaveBeenCalled();
+	});
+
+	it("exports with the reporter options when exportOnMerge is set", async () => {
+		await replay(
+			new PlaywrightOpentelemetryReporter({
+				_mode: "merge",
+				exportOnMerge: true,
+				otlpEndpoint: { url: "http://collector:4318/v1/traces" },
+			}),
+		);
+
+		expect(sendSpans).toHaveBeenCalledTimes(1);
+		const [spans, options] = vi.mocked(sendSpans).mock.calls[0];
+		expect(options.tracesEndpoint).toBe("http://collector:4318/v1/traces");
+		expect(spans.map((span: Span) => span.name)).toContain(TEST_SPAN_NAME);
+	});
+});
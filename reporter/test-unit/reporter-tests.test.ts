@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TRACE_CONTEXT_ATTACHMENT_NAME } from "../src/fixture/trace-context";
 import {
 	ATTR_CODE_FILE_PATH,
 	ATTR_CODE_LINE_NUMBER,
@@ -7,10 +8,22 @@ import {
 	ATTR_TEST_CASE_TITLE,
 } from "../src/reporter/otel-attributes";
 import {
+	ATTR_TEST_ANNOTATION_PREFIX,
+	ATTR_TEST_TAGS,
 	TEST_SPAN_NAME,
 	TEST_STEP_SPAN_NAME,
 } from "../src/reporter/reporter-attributes";
-import { runReporterTest, type TestResult } from "./reporter-harness";
+import { generateSpanId, generateTraceId, type Span } from "../src/shared/otel";
+import {
+	buildConfig,
+	buildTestCase,
+	buildTestResult,
+	type FullResult,
+	PlaywrightOpentelemetryReporter,
+	runReporterTest,
+	type Suite,
+	type TestResult,
+} from "./reporter-harness";
 
 // Mock the sender module
 vi.mock("../src/reporter/sender", () => ({
@@ -720,3 +733,157 @@ describe("PlaywrightOpentelemetryReporter - Span Timing Encapsulation", () => {
 		expect(testSpan.endTime).toEqual(new Date("2025-11-06T10:00:00.500Z"));
 	});
 });
+
+describe("PlaywrightOpentelemetryReporter - Retries", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("links each retry attempt to the previous exported attempt", async () => {
+		const reporter = new PlaywrightOpentelemetryReporter();
+		const testCase = buildTestCase({ id: "retried", title: "retried test" });
+		reporter.onBegin(buildConfig(), {
+			allTests: () => [testCase],
+		} as Suite);
+
+		const attempts = [0, 1, 2].map((retry) => ({
+			traceId: generateTraceId(),
+			rootSpanId: generateSpanId(),
+			retry,
+		}));
+		for (const attempt of attempts) {
+			const result = buildTestResult({
+				status: attempt.retry < 2 ? "failed" : "passed",
+				retry: attempt.retry,
+			});
+			result.attachments.push({
+				name: TRACE_CONTEXT_ATTACHMENT_NAME,
+				contentType: "application/json",
+				body: Buffer.from(JSON.stringify(attempt)),
+			});
+			reporter.onTestEnd(testCase, result);
+		}
+		await reporter.onEnd({} as FullResult);
+
+		const [spans] = (sendSpans as ReturnType<typeof vi.fn>).mock.calls[0];
+		const testSpans = spans.filter(
+			(s: { name: string }) => s.name === TEST_SPAN_NAME,
+		);
+		expect(testSpans.map((span: Span) => span.attributes)).toEqual([
+			expect.objectContaining({ "playwright.test.retry": 0 }),
+			expect.objectContaining({ "playwright.test.retry": 1 }),
+			expect.objectContaining({ "playwright.test.retry": 2 }),
+		]);
+
+		const retryLinks = testSpans.map((span: Span) =>
+			span.links?.filter(
+				(link) => link.attributes?.["playwright.test.retry"] !== undefined,
+			),
+		);
+		expect(retryLinks).toEqual([
+			[],
+			[
+				{
+					traceId: attempts[0].traceId,
+					spanId: attempts[0].rootSpanId,
+					attributes: { "playwright.test.retry": 0 },
+				},
+			],
+			[
+				{
+					traceId: attempts[1].traceId,
+					spanId: attempts[1].rootSpanId,
+					attributes: { "playwright.test.retry": 1 },
+				},
+			],
+		]);
+	});
+});
+
+describe("PlaywrightOpentelemetryReporter - Tags and annotations", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("exports test tags and annotations as test span attributes", async () => {
+		await runReporterTest({
+			test: {
+				title: "checkout",
+				tags: ["@smoke", "@checkout"],
+				annotations: [
+					{ type: "issue", description: "https://tracker.example.com/1" },
+					{ type: "issue", description: "https://tracker.example.com/2" },
+					{ type: "fixme" },
+				],
+			},
+			result: {
+				annotations: [
+					{ type: "issue", description: "https://tracker.example.com/1" },
+					{ type: "slow" },
+					{ type: "owner", description: "payments" },
+				],
+			},
+		});
+
+		const [spans] = (sendSpans as ReturnType<typeof vi.fn>).mock.calls[0];
+		const testSpan = spans.find(
+			(s: { name: string }) => s.name === TEST_SPAN_NAME,
+		);
+		expect(testSpan.attributes).toMatchObject({
+			[ATTR_TEST_TAGS]: ["@smoke", "@checkout"],
+			"playwright.test.annotation.issue": [
+				"https://tracker.example.com/1",
+				"https://tracker.example.com/2",
+			],
+			"playwright.test.annotation.fixme": [""],
+			"playwright.test.annotation.slow": [""],
+			"playwright.test.annotation.owner": ["payments"],
+		});
+		expect(testSpan.attributes).not.toHaveProperty(
+			"playwright.test.annotation.playwrightOpentelemetryTraceId",
+		);
+	});
+
+	it("omits tag and annotation attributes when a test has none", async () => {
+		await runReporterTest({ test: { title: "plain" } });
+
+		const [spans] = (sendSpans as ReturnType<typeof vi.fn>).mock.calls[0];
+		const testSpan = spans.find(
+			(s: { name: string }) => s.name === TEST_SPAN_NAME,
+		);
+		expect(
+			Object.keys(testSpan.attributes).filter(
+				(key) =>
+					key === ATTR_TEST_TAGS || key.startsWith(ATTR_TEST_ANNOTATION_PREFIX),
+			),
+		).toEqual([]);
+	});
+
+	describe("Span processors", () => {
+		it("applies span processors to test and step spans before export", async () => {
+			await runReporterTest({
+				playwrightOpentelemetry: {
+					spanProcessors: [
+						(span) => {
+							span.attributes["team.owner"] = "checkout";
+							return undefined;
+						},
+						(span) => (span.name === TEST_STEP_SPAN_NAME ? null : span),
+					],
+				},
+				test: { title: "owned test" },
+				result: {
+					steps: [{ title: "noisy step", category: "pw:api", duration: 10 }],
+				},
+			});
+
+			const [spans] = vi.mocked(sendSpans).mock.calls[0] ?? [];
+			expect(spans).toEqual([
+				expect.objectContaining({
+					name: TEST_SPAN_NAME,
+					attributes: expect.objectContaining({ "team.owner": "checkout" }),
+				}),
+			]);
+		});
+	});
+});
@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	RUN_SPAN_NAME,
+	TEST_SPAN_NAME,
+	WORKER_CLEANUP_SPAN_NAME,
+	WORKER_FIXTURE_SPAN_NAME,
+	WORKER_SPAN_NAME,
+} from "../src/reporter/reporter-attributes";
+import type { Span } from "../src/shared/otel";
+import {
+	buildConfig,
+	buildTestCase,
+	buildTestResult,
+	type FullResult,
+	PlaywrightOpentelemetryReporter,
+	type StepDefinition,
+	type Suite,
+} from "./reporter-harness";
+
+vi.mock("../src/reporter/sender", () => ({
+	sendSpans: vi.fn(),
+}));
+
+import { sendSpans } from "../src/reporter/sender";
+
+const fixtureStep = (
+	title: string,
+	startTime: string,
+	duration: number,
+): StepDefinition => ({
+	title: `Fixture "${title}"`,
+	category: "fixture",
+	startTime: new Date(startTime),
+	duration,
+});
+
+async function runWorkerTests(): Promise<Span[]> {
+	const reporter = new PlaywrightOpentelemetryReporter();
+	const first = buildTestCase({ id: "first", title: "first" });
+	const second = buildTestCase({ id: "second", title: "second" });
+	const other = buildTestCase({ id: "other", title: "other" });
+
+	reporter.onBegin(buildConfig({ projectNames: ["chromium"] }), {
+		allTests: () => [first, second, other],
+	} as Suite);
+	reporter.onTestEnd(
+		first,
+		buildTestResult({
+			workerIndex: 0,
+			parallelIndex: 0,
+			startTime: new Date("2025-11-06T10:00:00.000Z"),
+			duration: 3000,
+			steps: [
+				{
+					title: "Before Hooks",
+					category: "hook",
+					startTime: new Date("2025-11-06T10:00:00.000Z"),
+					duration: 1500,
+					steps: [
+						fixtureStep("browser", "2025-11-06T10:00:00.000Z", 1200),
+						fixtureStep("page", "2025-11-06T10:00:01.200Z", 300),
+					],
+				},
+				{
+					title: "After Hooks",
+					category: "hook",
+					startTime: new Date("2025-11-06T10:00:02.500Z"),
+					duration: 500,
+					steps: [fixtureStep("page", "2025-11-06T10:00:02.500Z", 100)],
+				},
+			],
+		}),
+	);
+	reporter.onTestEnd(
+		second,
+		buildTestResult({
+			status: "failed",
+			workerIndex: 0,
+			parallelIndex: 0,
+			startTime: new Date("2025-11-06T10:00:03.000Z"),
+			duration: 2000,
+			steps: [
+				{
+					title: "Before Hooks",
+					category: "hook",
+					startTime: new Date("2025-11-06T10:00:03.000Z"),
+					duration: 400,
+					steps: [fixtureStep("database", "2025-11-06T10:00:03.000Z", 400)],
+				},
+				{
+					title: "After Hooks",
+					category: "hook",
+					startTime: new Date("2025-11-06T10:00:04.000Z"),
+					duration: 1000,
+					steps: [
+						{
+							title: "Worker Cleanup",
+							category: "hook",
+							startTime: new Date("2025-11-06T10:00:04.200Z"),
+							duration: 800,
+							// Worker fixtures are torn down inside the cleanup hook.
+							steps: [
+								fixtureStep("database", "2025-11-06T10:00:04.200Z", 300),
+								fixtureStep("browser", "2025-11-06T10:00:04.500Z", 500),
+							],
+						},
+					],
+				},
+			],
+		}),
+	);
+	reporter.onTestEnd(
+		other,
+		buildTestResult({
+			workerIndex: 1,
+			parallelIndex: 1,
+			startTime: new Date("2025-11-06T10:00:00.500Z"),
+			duration: 1000,
+		}),
+	);
+	await reporter.onEnd({ status: "failed" } as FullResult);
+
+	return vi.mocked(sendSpans).mock.calls.flatMap(([spans]) => spans);
+}
+
+describe("PlaywrightOpentelemetryReporter - Worker spans", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("exports a playwright.worker span per worker under the run span", async () => {
+		const spans = await runWorkerTests();
+		const runSpan = spans.find((span) => span.name === RUN_SPAN_NAME);
+		const workerSpans = spans.filter((span) => span.name === WORKER_SPAN_NAME);
+
+		expect(workerSpans).toEqual([
+			expect.objectContaining({
+				traceId: runSpan?.traceId,
+				parentSpanId: runSpan?.spanId,
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				endTime: new Date("2025-11-06T10:00:05.000Z"),
+				attributes: {
+					"playwright.worker.index": 0,
+					"playwright.worker.parallel_index": 0,
+					"playwright.project.name": "chromium",
+					"playwright.worker.tests": 2,
+				},
+			}),
+			expect.objectContaining({
+				attributes: expect.objectContaining({
+					"playwright.worker.index": 1,
+					"playwright.worker.parallel_index": 1,
+					"playwright.worker.tests": 1,
+				}),
+			}),
+		]);
+	});
+
+	it("links worker spans to the test spans that ran on them", async () => {
+		const spans = await runWorkerTests();
+		const testSpans = spans.filter((span) => span.name === TEST_SPAN_NAME);
+		const workerSpan = spans.find(
+			(span) =>
+				span.name === WORKER_SPAN_NAME &&
+				span.attributes["playwright.worker.index"] === 0,
+		);
+
+		expect(workerSpan?.links).toEqual(
+			testSpans
+				.filter((span) => span.attributes["test.case.title"] !== "other")
+				.map((span) => ({ traceId: span.traceId, spanId: span.spanId })),
+		);
+	});
+
+	it("adds worker fixture setup and worker cleanup spans", async () => {
+		const spans = await runWorkerTests();
+		const workerSpan = spans.find(
+			(span) =>
+				span.name === WORKER_SPAN_NAME &&
+				span.attributes["playwright.worker.index"] === 0,
+		);
+		const children = spans.filter(
+			(span) => span.parentSpanId === workerSpan?.spanId,
+		);
+
+		expect(
+			children.map((span) => ({
+				name: span.name,
+				title: span.attributes["test.step.title"],
+				startTime: span.startTime,
+				endTime: span.endTime,
+			})),
+		).toEqual([
+			{
+				name: WORKER_FIXTURE_SPAN_NAME,
+				title: 'Fixture "browser"',
+				startTime: new Date("2025-11-06T10:00:00.000Z"),
+				endTime: new Date("2025-11-06T10:00:01.200Z"),
+			},
+			{
+				name: WORKER_FIXTURE_SPAN_NAME,
+				title: 'Fixture "database"',
+				startTime: new Date("2025-11-06T10:00:03.000Z"),
+				endTime: new Date("2025-11-06T10:00:03.400Z"),
+			},
+			{
+				name: WORKER_CLEANUP_SPAN_NAME,
+				title: "Worker Cleanup",
+				startTime: new Date("2025-11-06T10:00:04.200Z"),
+				endTime: new Date("2025-11-06T10:00:05.000Z"),
+			},
+		]);
+	});
+});
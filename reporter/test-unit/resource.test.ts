@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+	detectCiResourceAttributes,
+	parseOtelResourceAttributes,
+	resolveResourceAttributes,
+} from "../src/shared/resource";
+
+describe("detectCiResourceAttributes", () => {
+	it("detects GitHub Actions pull request runs", () => {
+		expect(
+			detectCiResourceAttributes({
+				GITHUB_ACTIONS: "true",
+				GITHUB_SERVER_URL: "https://github.com",
+				GITHUB_REPOSITORY: "acme/shop",
+				GITHUB_WORKFLOW: "e2e",
+				GITHUB_RUN_ID: "123456",
+				GITHUB_JOB: "playwright",
+				GITHUB_SHA: "abc123",
+				GITHUB_REF_NAME: "42/merge",
+				GITHUB_HEAD_REF: "feature/login",
+			}),
+		).toEqual({
+			"playwright.ci.provider": "github_actions",
+			"cicd.pipeline.name": "e2e",
+			"cicd.pipeline.run.id": "123456",
+			"cicd.pipeline.run.url.full":
+				"https://github.com/acme/shop/actions/runs/123456",
+			"cicd.pipeline.task.run.id": "playwright",
+			"vcs.ref.head.revision": "abc123",
+			"vcs.ref.head.name": "feature/login",
+			"vcs.repository.url.full": "https://github.com/acme/shop",
+		});
+	});
+
+	it("detects GitLab CI", () => {
+		expect(
+			detectCiResourceAttributes({
+				GITLAB_CI: "true",
+				CI_PROJECT_PATH: "acme/shop",
+				CI_PIPELINE_ID: "987",
+				CI_PIPELINE_URL: "https://gitlab.com/acme/shop/-/pipelines/987",
+				CI_JOB_ID: "555",
+				CI_COMMIT_SHA: "def456",
+				CI_COMMIT_REF_NAME: "main",
+				CI_PROJECT_URL: "https://gitlab.com/acme/shop",
+			}),
+		).toEqual({
+			"playwright.ci.provider": "gitlab",
+			"cicd.pipeline.name": "acme/shop",
+			"cicd.pipeline.run.id": "987",
+			"cicd.pipeline.run.url.full":
+				"https://gitlab.com/acme/shop/-/pipelines/987",
+			"cicd.pipeline.task.run.id": "555",
+			"vcs.ref.head.revision": "def456",
+			"vcs.ref.head.name": "main",
+			"vcs.repository.url.full": "https://gitlab.com/acme/shop",
+		});
+	});
+
+	it("detects CircleCI", () => {
+		expect(
+			detectCiResourceAttributes({
+				CIRCLECI: "true",
+				CIRCLE_WORKFLOW_ID: "wf-1",
+				CIRCLE_BUILD_URL: "https://circleci.com/gh/acme/shop/77",
+				CIRCLE_BUILD_NUM: "77",
+				CIRCLE_SHA1: "0a1b2c",
+				CIRCLE_BRANCH: "release",
+			}),
+		).toMatchObject({
+			"playwright.ci.provider": "circleci",
+			"cicd.pipeline.run.id": "wf-1",
+			"cicd.pipeline.run.url.full": "https://circleci.com/gh/acme/shop/77",
+			"cicd.pipeline.task.run.id": "77",
+			"vcs.ref.head.revision": "0a1b2c",
+			"vcs.ref.head.name": "release",
+		});
+	});
+
+	it("detects Buildkite", () => {
+		expect(
+			detectCiResourceAttributes({
+				BUILDKITE: "true",
+				BUILDKITE_PIPELINE_SLUG: "shop-e2e",
+				BUILDKITE_BUILD_ID: "build-uuid",
+				BUILDKITE_BUILD_URL: "https://buildkite.com/acme/shop-e2e/builds/12",
+				BUILDKITE_JOB_ID: "job-uuid",
+				BUILDKITE_COMMIT: "fedcba",
+				BUILDKITE_BRANCH: "main",
+			}),
+		).toMatchObject({
+			"playwright.ci.provider": "buildkite",
+			"cicd.pipeline.name": "shop-e2e",
+			"cicd.pipeline.run.id": "build-uuid",
+			"cicd.pipeline.run.url.full":
+				"https://buildkite.com/acme/shop-e2e/builds/12",
+			"cicd.pipeline.task.run.id": "job-uuid",
+			"vcs.ref.head.revision": "fedcba",
+			"vcs.ref.head.name": "main",
+		});
+	});
+
+	it("returns nothing outside supported CI providers", () => {
+		expect(detectCiResourceAttributes({ CI: "true" })).toEqual({});
+	});
+});
+
+describe("resolveResourceAttributes", () => {
+	it("parses percent-encoded OTEL_RESOURCE_ATTRIBUTES", () => {
+		expect(
+			parseOtelResourceAttributes(
+				"deployment.environment.name=staging, team=web%20platform,invalid",
+			),
+		).toEqual({
+			"deployment.environment.name": "staging",
+			team: "web platform",
+		});
+	});
+
+	it("layers CI metadata, config, OTEL_RESOURCE_ATTRIBUTES and OTEL_SERVICE_NAME", () => {
+		expect(
+			resolveResourceAttributes(
+				{ "vcs.ref.head.name": "configured", team: "config", tier: 1 },
+				{ detectCi: true },
+				{
+					BUILDKITE: "true",
+					BUILDKITE_BRANCH: "main",
+					BUILDKITE_COMMIT: "fedcba",
+					OTEL_RESOURCE_ATTRIBUTES: "team=env,service.name=from-attributes",
+					OTEL_SERVICE_NAME: "checkout-e2e",
+				},
+			),
+		).toEqual({
+			"playwright.ci.provider": "buildkite",
+			"vcs.ref.head.revision": "fedcba",
+			"vcs.ref.head.name": "configured",
+			team: "env",
+			tier: 1,
+			"service.name": "checkout-e2e",
+		});
+	});
+
+	it("skips CI detection when disabled", () => {
+		expect(
+			resolveResourceAttributes(
+				undefined,
+				{ detectCi: false },
+				{ GITHUB_ACTIONS: "true", GITHUB_SHA: "abc123" },
+			),
+		).toEqual({});
+	});
+});
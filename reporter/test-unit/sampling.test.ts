@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+	type PlaywrightOpentelemetrySamplingConfig,
+	resolvePlaywrightOpentelemetryConfig,
+} from "../src/shared/config";
+import {
+	type SamplingTestInfo,
+	shouldSampleTest,
+} from "../src/shared/sampling";
+
+const LOW_TRACE_ID = "a1b2c3d4e5f6a7b8c9d0000000000001";
+const HIGH_TRACE_ID = "a1b2c3d4e5f6a7b8c9dfffffffffffff";
+
+function sample(
+	sampling: PlaywrightOpentelemetrySamplingConfig,
+	test: Partial<SamplingTestInfo> = {},
+): boolean {
+	return shouldSampleTest(
+		resolvePlaywrightOpentelemetryConfig({ sampling }).sampling,
+		{ traceId: HIGH_TRACE_ID, projectName: "chromium", tags: [], ...test },
+	);
+}
+
+describe("shouldSampleTest", () => {
+	it("exports every test by default", () => {
+		expect(sample({})).toBe(true);
+	});
+
+	it("samples passing tests by trace ID", () => {
+		expect(sample({ ratio: 0.5 }, { traceId: LOW_TRACE_ID })).toBe(true);
+		expect(sample({ ratio: 0.5 }, { traceId: HIGH_TRACE_ID })).toBe(false);
+		expect(sample({ ratio: 0 }, { traceId: LOW_TRACE_ID })).toBe(false);
+	});
+
+	it("uses the ratio of the test's project", () => {
+		const ratio = { chromium: 0, firefox: 1 };
+
+		expect(sample({ ratio }, { projectName: "chromium" })).toBe(false);
+		expect(sample({ ratio }, { projectName: "firefox" })).toBe(true);
+		expect(sample({ ratio }, { projectName: "webkit" })).toBe(true);
+	});
+
+	it("keeps failed attempts and retries unless keepFailures is false", () => {
+		expect(sample({ ratio: 0 }, { status: "failed" })).toBe(true);
+		expect(sample({ ratio: 0 }, { status: "passed", retry: 1 })).toBe(true);
+		expect(
+			sample({ ratio: 0 }, { status: "failed", expectedStatus: "failed" }),
+		).toBe(false);
+		expect(
+			sample({ ratio: 0, keepFailures: false }, { status: "timedOut" }),
+		).toBe(false);
+	});
+
+	it("filters by tag before keeping failures", () => {
+		const sampling = {
+			includeTags: ["@smoke", "@checkout"],
+			excludeTags: ["@quarantine"],
+		};
+
+		expect(sample(sampling, { tags: ["@checkout"] })).toBe(true);
+		expect(sample(sampling, { tags: ["@visual"], status: "failed" })).toBe(
+			false,
+		);
+		expect(
+			sample(sampling, { tags: ["@smoke", "@quarantine"], status: "failed" }),
+		).toBe(false);
+	});
+});
+
+describe("sampling config", () => {
+	it("rejects ratios outside 0 to 1", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({ sampling: { ratio: 1.5 } }),
+		).toThrowError(
+			"playwrightOpentelemetry.sampling.ratio must be between 0 and 1, got 1.5.",
+		);
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				sampling: { ratio: { chromium: -1 } },
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry.sampling.ratio["chromium"] must be between 0 and 1, got -1.',
+		);
+	});
+});
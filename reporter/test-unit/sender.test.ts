@@ -1,6 +1,14 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { Span } from "../src/reporter/reporter";
-import { type SendSpansOptions, sendSpans } from "../src/reporter/sender";
+import {
+	replaySpooledSpans,
+	type SendSpansOptions,
+	sendSpans,
+} from "../src/reporter/sender";
 
 const defaultOptions: SendSpansOptions = {
 	tracesEndpoint: "http://localhost:4318/v1/traces",
@@ -205,6 +213,43 @@ describe("sendSpans", () => {
 		);
 	});
 
+	it("encodes span links", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 200,
+		});
+
+		const spans: Span[] = [
+			{
+				traceId: "a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6",
+				spanId: "1234567890abcdef",
+				name: "linked span",
+				startTime: new Date("2001-09-09T01:46:40.000Z"),
+				endTime: new Date("2001-09-09T01:46:40.500Z"),
+				attributes: {},
+				links: [
+					{
+						traceId: "ffffffffffffffffffffffffffffffff",
+						spanId: "eeeeeeeeeeeeeeee",
+						attributes: { "link.kind": "run" },
+					},
+				],
+			},
+		];
+
+		await sendSpans(spans, defaultOptions);
+
+		const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+		expect(body.resourceSpans[0].scopeSpans[0].spans[0].links).toEqual([
+			{
+				traceId: "ffffffffffffffffffffffffffffffff",
+				spanId: "eeeeeeeeeeeeeeee",
+				attributes: [{ key: "link.kind", value: { stringValue: "run" } }],
+				droppedAttributesCount: 0,
+			},
+		]);
+	});
+
 	it("handles multiple spans", async () => {
 		mockFetch.mockResolvedValue({
 			ok: true,
@@ -292,6 +337,63 @@ describe("sendSpans", () => {
 		]);
 	});
 
+	it("posts protobuf when the http/protobuf protocol is configured", async () => {
+		mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+		await sendSpans(
+			[
+				{
+					traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+					spanId: "1234567890abcdef",
+					name: "test span",
+					startTime: new Date("2001-09-09T01:46:40.000Z"),
+					endTime: new Date("2001-09-09T01:46:40.500Z"),
+					attributes: {},
+				},
+			],
+			{
+				...defaultOptions,
+				protocol: "http/protobuf",
+				headers: { "x-api-key": "secret" },
+			},
+		);
+
+		const [, init] = mockFetch.mock.calls[0] ?? [];
+		expect(init.headers).toEqual({
+			"content-type": "application/x-protobuf",
+			"x-api-key": "secret",
+		});
+		expect(init.body).toBeInstanceOf(Uint8Array);
+		// ExportTraceServiceRequest.resource_spans, length-delimited
+		expect(init.body[0]).toBe(0x0a);
+	});
+
+	it("gzips request bodies when compression is configured", async () => {
+		mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+		await sendSpans(
+			[
+				{
+					traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+					spanId: "1234567890abcdef",
+					name: "test span",
+					startTime: new Date("2001-09-09T01:46:40.000Z"),
+					endTime: new Date("2001-09-09T01:46:40.500Z"),
+					attributes: {},
+				},
+			],
+			{ ...defaultOptions, compression: "gzip" },
+		);
+
+		const [, init] = mockFetch.mock.calls[0] ?? [];
+		expect(init.headers).toEqual({
+			"content-type": "application/json",
+			"content-encoding": "gzip",
+		});
+		const body = JSON.parse(gunzipSync(init.body).toString("utf-8"));
+		expect(body.resourceSpans[0].scopeSpans[0].spans[0].name).toBe("test span");
+	});
+
 	it("throws error when fetch fails", async () => {
 		mockFetch.mockResolvedValue({
 			ok: false,
@@ -370,6 +472,59 @@ describe("sendSpans", () => {
 		expect(serviceVersionAttr.value.stringValue).toBe("1.56.1");
 	});
 
+	it("adds configured resource attributes without renaming browser spans", async () => {
+		mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+		const span: Span = {
+			traceId: "trace1",
+			spanId: "span1",
+			name: "test span",
+			startTime: new Date("2001-09-09T01:46:40.000Z"),
+			endTime: new Date("2001-09-09T01:46:40.500Z"),
+			attributes: {},
+		};
+		await sendSpans(
+			[span, { ...span, spanId: "span2", serviceName: "playwright-browser" }],
+			{
+				...defaultOptions,
+				resourceAttributes: {
+					"service.name": "checkout-e2e",
+					"vcs.ref.head.revision": "abc123",
+				},
+			},
+		);
+
+		const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+		const resources = body.resourceSpans.map(
+			(resourceSpan: {
+				resource: {
+					attributes: Array<{ key: string; value: { stringValue: string } }>;
+				};
+			}) =>
+				Object.fromEntries(
+					resourceSpan.resource.attributes.map((attr) => [
+						attr.key,
+						attr.value.stringValue,
+					]),
+				),
+		);
+
+		expect(resources).toEqual([
+			{
+				"service.name": "checkout-e2e",
+				"service.namespace": "playwright",
+				"service.version": "1.56.1",
+				"vcs.ref.head.revision": "abc123",
+			},
+			{
+				"service.name": "playwright-browser",
+				"service.namespace": "playwright",
+				"service.version": "1.56.1",
+				"vcs.ref.head.revision": "abc123",
+			},
+		]);
+	});
+
 	it("groups spans by service name into separate resourceSpans", async () => {
 		mockFetch.mockResolvedValue({
 			ok: true,
@@ -504,3 +659,150 @@ describe("sendSpans", () => {
 		expect(body.resourceSpans[0].scopeSpans[0].spans[0].kind).toBe(1);
 	});
 });
+
+describe("sendSpans retries and spooling", () => {
+	const mockFetch = vi.fn();
+	const span: Span = {
+		traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+		spanId: "1234567890abcdef",
+		name: "test span",
+		startTime: new Date("2001-09-09T01:46:40.000Z"),
+		endTime: new Date("2001-09-09T01:46:40.500Z"),
+		attributes: {},
+	};
+	const retryOptions: SendSpansOptions = {
+		...defaultOptions,
+		debug: false,
+		retry: {
+			maxAttempts: 3,
+			initialBackoffMillis: 1000,
+			maxBackoffMillis: 10000,
+		},
+	};
+	let spoolDir: string;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		global.fetch = mockFetch;
+		spoolDir = mkdtempSync(path.join(os.tmpdir(), "pw-otel-spool-"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		rmSync(spoolDir, { recursive: true, force: true });
+	});
+
+	function failedResponse(status: number, retryAfter?: string) {
+		return {
+			ok: false,
+			status,
+			statusText: "Unavailable",
+			text: async () => "try later",
+			headers: new Headers(retryAfter ? { "retry-after": retryAfter } : {}),
+		};
+	}
+
+	it("retries network errors with exponential backoff", async () => {
+		mockFetch
+			.mockRejectedValueOnce(new Error("ECONNRESET"))
+			.mockRejectedValueOnce(new Error("ECONNRESET"))
+			.mockResolvedValueOnce({ ok: true, status: 200 });
+
+		const sent = sendSpans([span], retryOptions);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+
+		// First retry waits 500-1000ms, the second 1000-2000ms.
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		await expect(sent).resolves.toBe("sent");
+		expect(mockFetch).toHaveBeenCalledTimes(3);
+	});
+
+	it("waits for Retry-After on 429 and 503 responses", async () => {
+		mockFetch
+			.mockResolvedValueOnce(failedResponse(429, "7"))
+			.mockResolvedValueOnce({ ok: true, status: 200 });
+
+		const sent = sendSpans([span], retryOptions);
+		await vi.advanceTimersByTimeAsync(6999);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1);
+		await expect(sent).resolves.toBe("sent");
+		expect(mockFetch).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not retry non-retryable responses", async () => {
+		mockFetch.mockResolvedValue(failedResponse(400));
+
+		await expect(sendSpans([span], retryOptions)).rejects.toThrow(
+			"Failed to send spans: 400 Unavailable, try later",
+		);
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("throws the last error once attempts are exhausted", async () => {
+		mockFetch.mockResolvedValue(failedResponse(503, "1"));
+
+		const sent = sendSpans([span], retryOptions);
+		const assertion = expect(sent).rejects.toThrow(
+			"Failed to send spans: 503 Unavailable, try later",
+		);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		await assertion;
+		expect(mockFetch).toHaveBeenCalledTimes(3);
+	});
+
+	it("spools undeliverable requests and replays them later", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		mockFetch.mockResolvedValue(failedResponse(400));
+
+		await expect(
+			sendSpans([span], { ...retryOptions, spoolDir }),
+		).resolves.toBe("spooled");
+		expect(readdirSync(spoolDir)).toHaveLength(1);
+		const spooledBody = mockFetch.mock.calls[0]?.[1].body;
+
+		mockFetch.mockReset();
+		mockFetch.mockResolvedValue({ ok: true, status: 200 });
+		await replaySpooledSpans({
+			...retryOptions,
+			headers: { authorization: "Bearer token" },
+			spoolDir,
+		});
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		const [url, init] = mockFetch.mock.calls[0] ?? [];
+		expect(url).toBe(defaultOptions.tracesEndpoint);
+		expect(init.headers).toEqual({
+			"content-type": "application/json",
+			authorization: "Bearer token",
+		});
+		expect(Buffer.from(init.body).toString("utf-8")).toBe(spooledBody);
+		expect(readdirSync(spoolDir)).toHaveLength(0);
+	});
+
+	it("keeps spooled requests for other endpoints or failed replays", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		mockFetch.mockResolvedValue(failedResponse(400));
+		await sendSpans([span], { ...retryOptions, spoolDir });
+		await sendSpans([span], {
+			...retryOptions,
+			tracesEndpoint: "http://other.example.com/v1/traces",
+			spoolDir,
+		});
+
+		await replaySpooledSpans({ ...retryOptions, spoolDir });
+
+		expect(readdirSync(spoolDir)).toHaveLength(2);
+		expect(warn).toHaveBeenLastCalledWith(
+			expect.stringContaining("could not replay spooled spans"),
+		);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Span } from "../src/shared/otel";
+import { applySpanProcessors } from "../src/shared/span-processors";
+
+function buildSpan(name: string, attributes: Span["attributes"] = {}): Span {
+	return {
+		traceId: "a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6",
+		spanId: "1234567890abcdef",
+		name,
+		startTime: new Date("2025-11-06T10:00:00.000Z"),
+		endTime: new Date("2025-11-06T10:00:01.000Z"),
+		attributes,
+	};
+}
+
+describe("applySpanProcessors", () => {
+	it("returns the input spans when no processors are configured", () => {
+		const spans = [buildSpan("playwright.test")];
+
+		expect(applySpanProcessors(spans, [])).toBe(spans);
+	});
+
+	it("runs processors in order to enrich, replace and drop spans", () => {
+		const spans = [
+			buildSpan("playwright.test"),
+			buildSpan("playwright.test.step", { "test.step.category": "pw:api" }),
+		];
+
+		const processed = applySpanProcessors(spans, [
+			(span) => {
+				span.attributes["team.owner"] = "checkout";
+				return undefined;
+			},
+			(span) =>
+				span.attributes["test.step.category"] === "pw:api" ? null : span,
+			(span) => ({ ...span, name: `${span.name} (processed)` }),
+		]);
+
+		expect(processed).toEqual([
+			expect.objectContaining({
+				name: "playwright.test (processed)",
+				attributes: { "team.owner": "checkout" },
+			}),
+		]);
+	});
+
+	it("processes copies so input spans can be reused", () => {
+		const span = buildSpan("playwright.run");
+
+		applySpanProcessors(
+			[span],
+			[
+				(copy) => {
+					copy.attributes.mutated = true;
+					return undefined;
+				},
+			],
+		);
+
+		expect(span.attributes).toEqual({});
+	});
+
+	it("names the span when a processor throws", () => {
+		expect(() =>
+			applySpanProcessors(
+				[buildSpan("playwright.test")],
+				[
+					() => {
+						throw new Error("boom");
+					},
+				],
+			),
+		).toThrowError(
+			'playwrightOpentelemetry.spanProcessors failed for span "playwright.test": boom',
+		);
+	});
+});
@@ -54,6 +54,76 @@ describe("test worker fetch capture", () => {
 		]);
 	});
 
+	it("adds traceparent and the test's propagation headers to fetch calls", async () => {
+		const fetchMock = vi
+			.fn<typeof fetch>()
+			.mockResolvedValue(new Response("{}"));
+		globalThis.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		traceContext.propagators = ["tracecontext"];
+		traceContext.propagationHeaders = {
+			baggage: "playwright.test.id=abc-123",
+			tracestate: "playwright=abc-123",
+		};
+
+		await runWithTestFetchCapture(traceContext, () =>
+			fetch(
+				new Request("https://api.example.com/users", {
+					headers: { authorization: "Bearer token", baggage: "tenant=a" },
+				}),
+			),
+		);
+
+		const spanId = traceContext.spans[0]?.spanId;
+		expect(fetchMock.mock.calls[0][1]?.headers).toEqual({
+			authorization: "Bearer token",
+			traceparent: `00-${traceContext.traceId}-${spanId}-01`,
+			tracestate: "playwright=abc-123",
+			baggage: "tenant=a,playwright.test.id=abc-123",
+		});
+	});
+
+	it("sends the configured propagator formats with fetch calls", async () => {
+		const fetchMock = vi
+			.fn<typeof fetch>()
+			.mockResolvedValue(new Response("{}"));
+		globalThis.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		traceContext.propagators = ["b3"];
+
+		await runWithTestFetchCapture(traceContext, () =>
+			fetch("https://api.example.com/users"),
+		);
+
+		expect(fetchMock.mock.calls[0][1]?.headers).toEqual({
+			b3: `${traceContext.traceId}-${traceContext.spans[0]?.spanId}-1`,
+		});
+	});
+
+	it("leaves fetch calls to other origins untouched but still records them", async () => {
+		const fetchMock = vi
+			.fn<typeof fetch>()
+			.mockResolvedValue(new Response("{}"));
+		globalThis.fetch = fetchMock;
+		const traceContext = createTraceContext();
+		traceContext.propagationHeaders = {
+			baggage: "playwright.test.id=abc-123",
+		};
+		traceContext.propagators = ["tracecontext"];
+		traceContext.propagatesTo = (url) =>
+			url.startsWith("https://api.example.com/");
+
+		await runWithTestFetchCapture(traceContext, () =>
+			fetch("https://analytics.vendor.com/collect"),
+		);
+
+		expect(fetchMock).toHaveBeenCalledWith(
+			"https://analytics.vendor.com/collect",
+			undefined,
+		);
+		expect(traceContext.spans).toHaveLength(1);
+	});
+
 	it("marks 4xx and 5xx responses as error spans", async () => {
 		globalThis.fetch = vi
 			.fn<typeof fetch>()
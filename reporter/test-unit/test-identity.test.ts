@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { testPropagationHeaders } from "../src/fixture/test-identity";
+import {
+	type PlaywrightOpentelemetryConfig,
+	resolvePlaywrightOpentelemetryConfig,
+} from "../src/shared/config";
+
+const TEST_INFO = {
+	testId: "5e8f1c2d-9f8e7d6c",
+	title: "checkout, with coupon",
+	project: { name: "chromium" },
+	retry: 1,
+} as Parameters<typeof testPropagationHeaders>[1];
+
+function headers(config: PlaywrightOpentelemetryConfig) {
+	return testPropagationHeaders(
+		resolvePlaywrightOpentelemetryConfig(config),
+		TEST_INFO,
+	);
+}
+
+describe("testPropagationHeaders", () => {
+	it("adds no headers unless test identity propagation is enabled", () => {
+		expect(headers({})).toEqual({});
+	});
+
+	it("sends the test identity as baggage", () => {
+		expect(headers({ propagateTestIdentity: true })).toEqual({
+			baggage:
+				"playwright.test.id=5e8f1c2d-9f8e7d6c,playwright.test.title=checkout%2C%20with%20coupon,playwright.project.name=chromium,playwright.test.retry=1",
+		});
+	});
+
+	it("uses configured baggage keys and leaves out disabled fields", () => {
+		expect(
+			headers({
+				propagateTestIdentity: {
+					baggageKeys: { testId: "test_id", title: false, project: false },
+				},
+			}),
+		).toEqual({ baggage: "test_id=5e8f1c2d-9f8e7d6c,playwright.test.retry=1" });
+	});
+
+	it("puts the test ID first in tracestate, before the incoming entries", () => {
+		expect(
+			headers({
+				propagateTestIdentity: {
+					baggageKeys: {
+						testId: false,
+						title: false,
+						project: false,
+						retry: false,
+					},
+					tracestateKey: "playwright",
+				},
+				traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+				tracestate: "ci=job,playwright=stale",
+			}),
+		).toEqual({ tracestate: "playwright=5e8f1c2d-9f8e7d6c,ci=job" });
+	});
+
+	it("forwards the incoming tracestate without test identity", () => {
+		expect(
+			headers({
+				traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+				tracestate: "ci=job",
+			}),
+		).toEqual({ tracestate: "ci=job" });
+	});
+
+	it("rejects keys that are not valid W3C keys", () => {
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				propagateTestIdentity: { baggageKeys: { title: "test title" } },
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry.propagateTestIdentity.baggageKeys.title must be a W3C baggage key, got "test title".',
+		);
+		expect(() =>
+			resolvePlaywrightOpentelemetryConfig({
+				propagateTestIdentity: { tracestateKey: "Playwright" },
+			}),
+		).toThrowError(
+			'playwrightOpentelemetry.propagateTestIdentity.tracestateKey must be a W3C tracestate key, got "Playwright".',
+		);
+	});
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+	DURATION_BOUNDARIES_SECONDS,
+	getTestMetricAttributes,
+	TestMetricsRecorder,
+} from "../src/reporter/test-metrics-recorder";
+import type { Metric } from "../src/shared/otlp-metrics";
+import { buildTestCase, buildTestResult } from "./reporter-harness";
+
+function metric(metrics: Metric[], name: string): Metric {
+	const found = metrics.find((candidate) => candidate.name === name);
+	if (!found) {
+		throw new Error(`Metric ${name} not found`);
+	}
+	return found;
+}
+
+describe("getTestMetricAttributes", () => {
+	it("keys metrics by project, relative file and sorted tags", () => {
+		const test = buildTestCase({
+			title: "checkout",
+			titlePath: ["", "firefox", "checkout.spec.ts", "checkout"],
+			tags: ["@smoke", "@checkout"],
+			location: { file: "/repo/tests/checkout.spec.ts", line: 3 },
+		});
+
+		expect(getTestMetricAttributes(test, "/repo")).toEqual({
+			"playwright.project.name": "firefox",
+			"code.file.path": "tests/checkout.spec.ts",
+			"playwright.test.tags": ["@checkout", "@smoke"],
+		});
+	});
+});
+
+describe("TestMetricsRecorder", () => {
+	const attributes = { "playwright.project.name": "chromium" };
+
+	it("aggregates test durations per attempt status into cumulative histograms", () => {
+		const recorder = new TestMetricsRecorder();
+		recorder.recordTestResult(
+			buildTestCase({ title: "fast" }),
+			buildTestResult({ duration: 200 }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			buildTestCase({ title: "slow" }),
+			buildTestResult({ duration: 45_000 }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			buildTestCase({ title: "broken" }),
+			buildTestResult({ status: "failed", duration: 1000 }),
+			attributes,
+		);
+
+		const durations = metric(recorder.collect(), "playwright.test.duration");
+		expect(durations).toMatchObject({ kind: "histogram", unit: "s" });
+		expect(durations.dataPoints).toEqual([
+			{
+				attributes: { ...attributes, "playwright.test.status": "passed" },
+				count: 2,
+				sum: 45.2,
+				min: 0.2,
+				max: 45,
+				bucketCounts: DURATION_BOUNDARIES_SECONDS.concat(Infinity).map(
+					(boundary) => (boundary === 0.25 || boundary === 60 ? 1 : 0),
+				),
+			},
+			expect.objectContaining({
+				attributes: { ...attributes, "playwright.test.status": "failed" },
+				count: 1,
+			}),
+		]);
+	});
+
+	it("records nested step durations keyed by step category", () => {
+		const recorder = new TestMetricsRecorder();
+		recorder.recordTestResult(
+			buildTestCase({ title: "steps" }),
+			buildTestResult({
+				steps: [
+					{
+						title: "login",
+						category: "test.step",
+						duration: 500,
+						steps: [{ title: "click", category: "pw:api", duration: 50 }],
+					},
+					{ title: "goto", category: "pw:api", duration: 150 },
+				],
+			}),
+			attributes,
+		);
+
+		const steps = metric(recorder.collect(), "playwright.test.step.duration");
+		expect(
+			steps.dataPoints.map((point) => ({
+				category: point.attributes["test.step.category"],
+				count: "count" in point ? point.count : undefined,
+			})),
+		).toEqual([
+			{ category: "test.step", count: 1 },
+			{ category: "pw:api", count: 2 },
+		]);
+	});
+
+	it("counts each test once by its final outcome", () => {
+		const recorder = new TestMetricsRecorder();
+		const flaky = buildTestCase({ title: "flaky" });
+		recorder.recordTestResult(
+			flaky,
+			buildTestResult({ status: "failed", retry: 0 }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			flaky,
+			buildTestResult({ status: "passed", retry: 1 }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			buildTestCase({ title: "passing" }),
+			buildTestResult({ status: "passed" }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			buildTestCase({ title: "skipped" }),
+			buildTestResult({ status: "skipped" }),
+			attributes,
+		);
+		recorder.recordTestResult(
+			buildTestCase({ title: "failing" }),
+			buildTestResult({ status: "timedOut" }),
+			attributes,
+		);
+
+		const outcomes = metric(recorder.collect(), "playwright.test.outcomes");
+		expect(outcomes.kind).toBe("counter");
+		expect(outcomes.dataPoints).toEqual([
+			{
+				attributes: { ...attributes, "playwright.test.outcome": "flaky" },
+				value: 1,
+			},
+			{
+				attributes: { ...attributes, "playwright.test.outcome": "passed" },
+				value: 1,
+			},
+			{
+				attributes: { ...attributes, "playwright.test.outcome": "skipped" },
+				value: 1,
+			},
+			{
+				attributes: { ...attributes, "playwright.test.outcome": "failed" },
+				value: 1,
+			},
+		]);
+	});
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { createTraceHeaderOriginFilter } from "../src/shared/trace-header-origins";
+
+describe("createTraceHeaderOriginFilter", () => {
+	it("propagates to every origin by default", () => {
+		const propagatesTo = createTraceHeaderOriginFilter(undefined);
+
+		expect(propagatesTo("https://cdn.vendor.com/lib.js")).toBe(true);
+		expect(propagatesTo("data:text/plain,hi")).toBe(true);
+	});
+
+	it("only propagates to allowed origins", () => {
+		const propagatesTo = createTraceHeaderOriginFilter({
+			allow: ["https://*.example.com", "localhost:*", /^http:\/\/10\./],
+		});
+
+		expect(propagatesTo("https://api.example.com/users")).toBe(true);
+		expect(propagatesTo("https://a.b.example.com/")).toBe(true);
+		expect(propagatesTo("http://api.example.com/users")).toBe(false);
+		expect(propagatesTo("http://localhost:3000/health")).toBe(true);
+		expect(propagatesTo("http://10.0.0.4:8080/")).toBe(true);
+		expect(propagatesTo("https://example.com.evil.net/")).toBe(false);
+		expect(propagatesTo("data:text/plain,hi")).toBe(false);
+	});
+
+	it("never propagates to denied origins", () => {
+		const propagatesTo = createTraceHeaderOriginFilter({
+			allow: ["https://*.example.com"],
+			deny: ["analytics.example.com"],
+		});
+
+		expect(propagatesTo("https://api.example.com/")).toBe(true);
+		expect(propagatesTo("https://analytics.example.com/collect")).toBe(false);
+		expect(
+			createTraceHeaderOriginFilter({ deny: [/googletagmanager/] })(
+				"https://www.googletagmanager.com/gtm.js",
+			),
+		).toBe(false);
+	});
+});
@@ -1,7 +1,7 @@
 import { existsSync, mkdirSync, rmSync } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { FullResult, Suite } from "@playwright/test/reporter";
+import type { FullResult, Suite, TestCase } from "@playwright/test/reporter";
 import {
 	BlobReader,
 	BlobWriter,
@@ -31,12 +31,12 @@ vi.mock("../src/reporter/sender", async (importOriginal) => {
 	};
 });
 
-import { sendSpans } from "../src/reporter/sender";
-import { extractScreenshotsFromPlaywrightTrace } from "../src/reporter/trace-zip-builder";
 import {
 	FIXTURE_SPANS_ATTACHMENT_NAME,
 	TRACE_CONTEXT_ATTACHMENT_NAME,
 } from "../src/fixture/trace-context";
+import { sendSpans } from "../src/reporter/sender";
+import { extractScreenshotsFromPlaywrightTrace } from "../src/reporter/trace-zip-builder";
 
 /**
  * Helper to create a unique test output directory
@@ -519,6 +519,44 @@ describe("PlaywrightOpentelemetryReporter - Trace Zip", () => {
 			});
 		});
 
+		it("writes the zip without exporting when merge-reports replays a blob report", async () => {
+			outputDir = createTestOutputDir("merge-reports-replay");
+
+			const testId = "merge-reports-replay-123";
+			const reporter = new PlaywrightOpentelemetryReporter({
+				_mode: "merge",
+				storeTraceZip: true,
+				trace: "on",
+			});
+			// Blob reports keep no project `use` options.
+			const testCase = {
+				...buildTestCase({
+					id: testId,
+					title: "replayed test",
+					titlePath: ["", "chromium", "simple.spec.ts", "replayed test"],
+					location: { file: `${DEFAULT_ROOT_DIR}/simple.spec.ts`, line: 5 },
+				}),
+				parent: { project: () => ({ outputDir, use: {} }) },
+			} as unknown as TestCase;
+			const testResult = buildTestResult(
+				{ status: "passed", duration: 1000, steps: [], attachments: [] },
+				DEFAULT_START_TIME,
+			);
+
+			reporter.onBegin(buildConfig({ rootDir: DEFAULT_ROOT_DIR }), {
+				allTests: () => [testCase],
+			} as Suite);
+			reporter.onTestEnd(testCase, testResult);
+			await reporter.onEnd({} as FullResult);
+
+			expect(
+				existsSync(
+					path.join(outputDir, `simple.spec.ts:5-${testId}-pw-otel.zip`),
+				),
+			).toBe(true);
+			expect(sendSpans).not.toHaveBeenCalled();
+		});
+
 		it("includes fixture browser spans as a separate trace fragment", async () => {
 			outputDir = createTestOutputDir("fixture-browser-spans");
 
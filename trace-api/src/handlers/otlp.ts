@@ -1,5 +1,5 @@
-import type { EventHandler } from "h3";
-import { defineEventHandler, readBody } from "h3";
+import type { EventHandler, H3Event } from "h3";
+import { defineEventHandler, HTTPError, readBody } from "h3";
 import { applyCors } from "../cors";
 import type { TraceApiHandlerConfig } from "../createTraceApi";
 import { type OtlpExport, partitionOtlpExportByTraceId } from "../otlp";
@@ -9,6 +9,7 @@ import { type OtlpExport, partitionOtlpExportByTraceId } from "../otlp";
  *
  * Receives OTLP JSON payloads at POST /v1/traces, partitions spans by traceId,
  * and writes trace-scoped fragments to `traces/{traceId}/traces/{requestId}.json`.
+ * Payloads sent with `Content-Encoding: gzip` are decompressed first.
  *
  * @param config - TraceApiHandlerConfig with storage and optional CORS/resolvePath settings
  * @returns H3 event handler
@@ -31,7 +32,7 @@ export function createOtlpHandler(config: TraceApiHandlerConfig): EventHandler {
 		if (corsResponse) {
 			return corsResponse;
 		}
-		const payload = (await readBody(event)) as OtlpExport;
+		const payload = (await readOtlpBody(event)) as OtlpExport;
 		const traces = partitionOtlpExportByTraceId(payload);
 
 		// Store each trace group separately
@@ -55,3 +56,40 @@ export function createOtlpHandler(config: TraceApiHandlerConfig): EventHandler {
 		return { status: "ok" };
 	});
 }
+
+async function readOtlpBody(event: H3Event): Promise<unknown> {
+	const encoding = event.req.headers
+		.get("content-encoding")
+		?.trim()
+		.toLowerCase();
+	if (!encoding || encoding === "identity") {
+		return readBody(event);
+	}
+
+	if (encoding !== "gzip") {
+		throw new HTTPError({
+			statusCode: 415,
+			message: `Unsupported Content-Encoding: ${encoding}`,
+		});
+	}
+
+	if (!event.req.body) {
+		throw new HTTPError({
+			statusCode: 400,
+			message: "Request body is required",
+		});
+	}
+
+	// DecompressionStream is available in every runtime the trace API targets.
+	const decompressed = event.req.body.pipeThrough(
+		new DecompressionStream("gzip"),
+	);
+	try {
+		return JSON.parse(await new Response(decompressed).text());
+	} catch {
+		throw new HTTPError({
+			statusCode: 400,
+			message: "Invalid gzip-encoded OTLP JSON payload",
+		});
+	}
+}
@@ -107,6 +107,55 @@ describe("reading trace data through the viewer API", () => {
 		]);
 	});
 
+	it("accepts gzip-compressed OTLP batches", async () => {
+		const app = createTestHarness();
+		const traceId = generateTraceId();
+		const body = new Response(
+			new Blob([
+				JSON.stringify(
+					createOtlpPayload({
+						traceId,
+						serviceName: "playwright-tests",
+						spans: [span("playwright.test")],
+					}),
+				),
+			])
+				.stream()
+				.pipeThrough(new CompressionStream("gzip")),
+		);
+
+		const response = await app.fetch(
+			new Request("http://localhost/v1/traces", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"Content-Encoding": "gzip",
+				},
+				body: await body.arrayBuffer(),
+			}),
+		);
+
+		expect(response.status).toBe(200);
+		expect(await readSpanNames(app, traceId)).toEqual(["playwright.test"]);
+	});
+
+	it("rejects OTLP batches with an unsupported content encoding", async () => {
+		const app = createTestHarness();
+
+		const response = await app.fetch(
+			new Request("http://localhost/v1/traces", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"Content-Encoding": "br",
+				},
+				body: "{}",
+			}),
+		);
+
+		expect(response.status).toBe(415);
+	});
+
 	it("returns 404 when a user opens a trace ID that has no stored trace fragments", async () => {
 		const app = createTestHarness();
 		const response = await app.fetch(